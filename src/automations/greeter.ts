@@ -1,8 +1,6 @@
+import convict from "convict";
 import { Observable } from "rxjs";
 import {
-  pluck,
-  map,
-  distinctUntilChanged,
   switchMap,
   filter,
   withLatestFrom,
@@ -12,6 +10,31 @@ import {
 } from "rxjs/operators";
 import { AutomationOptions } from "./index";
 import { IServicesCradle } from "../services/cradle";
+import { CallPolicy } from "../services/Service";
+
+type Settings = {
+  asleepEntity: string;
+  awakeEntity: string;
+};
+
+export const schema: convict.Schema<Settings> = {
+  asleepEntity: {
+    doc: "The binary sensor which says everyone is asleep.",
+    format: String,
+    default: "binary_sensor.reactive_hass_asleep",
+  },
+  awakeEntity: {
+    doc: "The binary sensor which says someone is awake.",
+    format: String,
+    default: "binary_sensor.reactive_hass_awake",
+  },
+};
+
+/**
+ * A greeting is sent at most once. When HA is offline it keeps waiting for up to 2 minutes,
+ * after that the moment has passed.
+ */
+const GREETING_POLICY: CallPolicy = { timeout: "2m" };
 
 /**
  * Greets the user with "Good night!" when going to sleep
@@ -21,23 +44,17 @@ import { IServicesCradle } from "../services/cradle";
  */
 export default function (
   { states, notify }: IServicesCradle,
-  { debug }: AutomationOptions
+  { debug, settings }: AutomationOptions<Settings>
 ): Observable<unknown> {
   // Get the asleep sensor state (from reactive-hass MQTT)
-  const asleep$ = states.entity$("binary_sensor.reactive_hass_asleep").pipe(
-    pluck("state"),
-    map((v) => v === "on"),
+  const asleep$ = states.binary$(settings.asleepEntity).pipe(
     tap((v) => debug("asleep:", v)),
-    distinctUntilChanged(),
     share()
   );
 
   // Get the awake sensor state (from reactive-hass MQTT)
-  const awake$ = states.entity$("binary_sensor.reactive_hass_awake").pipe(
-    pluck("state"),
-    map((v) => v === "on"),
+  const awake$ = states.binary$(settings.awakeEntity).pipe(
     tap((v) => debug("awake:", v)),
-    distinctUntilChanged(),
     share()
   );
 
@@ -47,7 +64,7 @@ export default function (
     filter(([asleep, awake]) => asleep && awake),
     switchMap(() => {
       debug("Good night!");
-      return notify.single$("Good night!");
+      return notify.single$("Good night!", GREETING_POLICY);
     })
   );
 
@@ -57,7 +74,7 @@ export default function (
     filter(([awake, asleep]) => awake && asleep),
     switchMap(() => {
       debug("Good morning!");
-      return notify.single$("Good morning!");
+      return notify.single$("Good morning!", GREETING_POLICY);
     })
   );
 
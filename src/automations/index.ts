@@ -3,6 +3,7 @@ import { EMPTY, merge, Observable } from "rxjs";
 import servicesCradle, { IServicesCradle } from "../services/cradle";
 
 import requireDir from "require-dir";
+import convict from "convict";
 
 import DEBUG from "debug";
 import { switchMap } from "rxjs/operators";
@@ -12,22 +13,52 @@ const services = requireDir("./");
 
 const debug = DEBUG("r-h.automations");
 
-export type AutomationOptions = {
+export type AutomationOptions<C = Record<string, never>> = {
   debug: {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (message?: any, ...args: any[]): void;
     extend: (namespace: string) => AutomationOptions["debug"];
   };
+  /**
+   * The automations.<name> section of the config, validated against the schema the automation exports.
+   */
+  settings: C;
 };
 
-type Automation = (
+type Automation<C> = (
   services: IServicesCradle,
-  options: AutomationOptions
+  options: AutomationOptions<C>
 ) => Observable<unknown>;
 
+/**
+ * Every automation has settings of its own, a list of them only knows that schema and settings match.
+ */
+type AutomationModule<C = never> = {
+  default: Automation<C>;
+  schema?: convict.Schema<C>;
+};
+
+function run$<C>(
+  name: string,
+  automation: AutomationModule<C>,
+  namespace: string
+) {
+  return servicesCradle.config
+    .section$("automations", name, automation.schema)
+    .pipe(
+      switchMap((settings) => {
+        return automation.default(servicesCradle, {
+          debug: DEBUG(namespace + name),
+          settings,
+        });
+      })
+    );
+}
+
 // NOTE: Every service expects the servicesCradle to be injected.
 //       And every service is expected to output an observable.
 // TODO: The output of the observable is never logged. Instead, use special services to log output from a specific automation.
+// NOTE: An automation can export a convict schema. Its settings are read from automations.<name> in the config.
 // TODO: Every automation will automatically restart when it crashes. A crashing automation should not impact other automations.
 // TODO: How would we give access to the sensors? :man_thinking:
 
@@ -44,12 +75,10 @@ if (RUN) {
     );
   }
 
-  observable$ = services[RUN].default(servicesCradle, {
-    debug: DEBUG("r-h.run-automation." + RUN),
-  });
+  observable$ = run$(RUN, services[RUN], "r-h.run-automation.");
 } else {
   const mapped = Object.entries(
-    services as Record<string, { default: Automation }>
+    services as Record<string, AutomationModule>
   ).map(([name, automation]) => {
     console.log("found automation", name);
     const automationSwitch = discoverySwitch.create(name, true, {
@@ -58,16 +87,13 @@ if (RUN) {
 
     // TODO: maybe create a scoped container specifically for the automation.
     // TODO: maybe inject extra services specific for the automation.
-    // TODO: every automation can have a piece of config
 
     return automationSwitch.state$.pipe(
       switchMap((state) => {
         debug("detected change of state for automation %s to %o", name, state);
         if (state.current) {
           console.log("starting automation", name);
-          return automation.default(servicesCradle, {
-            debug: DEBUG("r-h.automation." + name),
-          });
+          return run$(name, automation, "r-h.automation.");
         }
 
         console.log("stopping automation", name);
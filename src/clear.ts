@@ -0,0 +1,38 @@
+import DEBUG from "debug";
+import { parseArgs } from "util";
+
+import cradle from "./services/cradle";
+
+const debug = DEBUG("r-h.clear");
+
+const { values } = parseArgs({
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    category: { type: "string", multiple: true },
+  },
+});
+
+const dryRun = values["dry-run"] ?? false;
+
+debug("clearing with %o", values);
+
+cradle.cleaner.clear$({ categories: values.category, dryRun }).subscribe({
+  next(entities) {
+    entities.forEach((entity) => {
+      console.log(
+        `${dryRun ? "would remove" : "removed"} ${entity.category} ${entity.uniqueId}`
+      );
+      entity.topics.forEach((topic) => console.log(`  ${topic}`));
+    });
+
+    console.log(`${entities.length} entities ${dryRun ? "found" : "removed"}`);
+  },
+  error(e) {
+    console.error("clearing failed", e);
+    process.exit(1);
+  },
+  complete() {
+    // The MQTT client keeps the process alive.
+    process.exit(0);
+  },
+});
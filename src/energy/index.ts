@@ -1,13 +1,15 @@
-import { BehaviorSubject, EMPTY, Observable } from "rxjs";
-import { switchMap } from "rxjs/operators";
+import { BehaviorSubject, EMPTY, merge, Observable } from "rxjs";
+import { distinctUntilChanged, map, switchMap } from "rxjs/operators";
 import servicesCradle from "../services/cradle";
 import DEBUG from "debug";
-import { createLoadManager$ } from "./loadManager";
+import { AVAILABLE_POWER_SENSOR_ID, createLoadManager$ } from "./loadManager";
 import { getLoadFactories } from "./loads/index";
 import { LoadId, Power } from "./types";
 
 const debug = DEBUG("r-h.energy");
 
+const allocationSensorId = (id: LoadId) => `energy_allocation_${id.toString()}`;
+
 /**
  * Reactive Hass Energy System
  *
@@ -24,15 +26,22 @@ const debug = DEBUG("r-h.energy");
  * - Rolling averages for stable decision-making
  * - Modulated (variable power) and binary (on/off) load support
  */
-function createEnergySystem$(): Observable<unknown> {
+function createEnergySystem$(
+  factories: ReturnType<typeof getLoadFactories>
+): Observable<unknown> {
   const cradle = servicesCradle;
 
+  if (cradle.homeWizardP1s.length === 0) {
+    console.log("no HomeWizard P1 meter configured, nothing to measure");
+    return EMPTY;
+  }
+
   const powerAllocation$ = new BehaviorSubject<Record<LoadId, Power> | null>(
     null
   );
 
   // Create managed loads from auto-discovered factories
-  const loads = getLoadFactories().map(({ factory, id, name }) => {
+  const loads = factories.map(({ factory, id, name }) => {
     debug(`Initializing load: ${name} (${id.toString()})`);
     return factory(cradle, {
       debug: debug.extend(`load-${id.toString()}`),
@@ -54,14 +63,41 @@ function createEnergySystem$(): Observable<unknown> {
     })
   );
 
+  // Expose the allocation of every load as a sensor in HA
+  const allocationSensors$ = factories.map(({ id, name }) =>
+    cradle.sensor.create$(
+      powerAllocation$.pipe(
+        map((allocation) => allocation?.[id] ?? 0),
+        distinctUntilChanged()
+      ),
+      allocationSensorId(id),
+      null,
+      {
+        name: `Energy allocation ${name}`,
+        unitOfMeasurement: "W",
+        deviceClass: "power",
+        stateClass: "measurement",
+      }
+    )
+  );
+
   // The manager sets allocated power on each load
   // Each load reconciles itself to match its allocation
   // Merge manager with all load side effects
-  return manager$;
+  return merge(manager$, ...allocationSensors$);
 }
 
+const factories = getLoadFactories(servicesCradle);
+
+// The sensors only get created once the energy system runs.
+// Claim them already so they survive the garbage collection while it is turned off.
+const { discoverySwitch, discovery } = servicesCradle;
+discovery.claim(AVAILABLE_POWER_SENSOR_ID, "sensor");
+factories.forEach(({ id }) =>
+  discovery.claim(allocationSensorId(id), "sensor")
+);
+
 // Create toggle switch for energy system
-const { discoverySwitch } = servicesCradle;
 const energySwitch = discoverySwitch.create("energy", true, {
   name: "Reactive Hass Energy System",
 });
@@ -73,7 +109,7 @@ export default energySwitch.state$.pipe(
     if (state.current) {
       console.log("starting energy system");
 
-      return createEnergySystem$();
+      return createEnergySystem$(factories);
     }
     console.log("stopping energy system");
 
@@ -35,6 +35,8 @@ type LoadManagerOutput = Record<LoadId, Power>;
 
 const FAKE_SOLAR_OVERHEAD = 0;
 
+export const AVAILABLE_POWER_SENSOR_ID = "energy_available_power";
+
 /**
  * Creates a load manager that monitors all loads and allocates power
  *
@@ -45,11 +47,14 @@ const FAKE_SOLAR_OVERHEAD = 0;
  * @returns Observable that sets power allocations (never completes)
  */
 export function createLoadManager$(
-  { homeWizardP1 }: IServicesCradle,
+  { homeWizardP1s, sensor }: IServicesCradle,
   { loads, powerAllocation$, debug }: LoadManagerConfig
 ) {
-  // Monitor total power usage from P1 meter
-  const powerUsage$ = homeWizardP1.activePower$.pipe(
+  // Monitor total power usage from the P1 meters
+  const powerUsage$ = combineLatest(
+    homeWizardP1s.map((p1) => p1.activePower$)
+  ).pipe(
+    map((powers) => powers.reduce((total, power) => total + power, 0)),
     distinctUntilChanged(),
     share()
   );
@@ -158,8 +163,22 @@ export function createLoadManager$(
     shareReplay(1)
   );
 
+  // Expose the available power as a sensor in HA
+  const availablePowerSensor$ = sensor.create$(
+    availablePower$,
+    AVAILABLE_POWER_SENSOR_ID,
+    null,
+    {
+      name: "Energy available power",
+      unitOfMeasurement: "W",
+      deviceClass: "power",
+      stateClass: "measurement",
+    }
+  );
+
   return merge(
     decision$,
+    availablePowerSensor$.pipe(switchMap(() => EMPTY)),
     // Merge in observables that never complete but need to stay active.
     combineLatest(loadRuns$).pipe(switchMap(() => EMPTY))
   );
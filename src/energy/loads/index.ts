@@ -1,38 +1,58 @@
 import requireDir from "require-dir";
+import { IServicesCradle } from "../../services/cradle";
 import { LoadFactory, LoadId } from "../types";
 
+export type LoadDefinition = {
+  factory: LoadFactory;
+  id: LoadId;
+  name: string;
+};
+
+type LoadModule = {
+  default?: LoadFactory;
+  config?: { id: LoadId; name: string };
+  /**
+   * For loads which exist once per configured integration. Like one per car.
+   */
+  instances?: (cradle: IServicesCradle) => LoadDefinition[];
+};
+
 /**
  * Auto-load all load factories from the loads directory.
  *
- * Each load file should export a default LoadFactory function.
+ * Each load file should export a default LoadFactory function, or an instances function.
  * Loads are automatically discovered and can be dropped into this directory.
  */
 const loadModules = requireDir("./");
 
-export const getLoadFactories = (): {
-  factory: LoadFactory;
-  id: LoadId;
-  name: string;
-}[] =>
-  Object.entries(
-    loadModules as Record<
-      string,
-      { default: LoadFactory; config?: { id: LoadId; name: string } }
-    >
-  ).map(([name, module]) => {
-    if (!module.default) {
-      throw new Error(`Load '${name}' does not export a default LoadFactory`);
+export const getLoadFactories = (cradle: IServicesCradle): LoadDefinition[] =>
+  Object.entries(loadModules as Record<string, LoadModule>).flatMap(
+    ([name, module]) => {
+      if (module.instances) {
+        const instances = module.instances(cradle);
+        instances.forEach((instance) => {
+          console.log("found energy load", name, instance.id);
+        });
+
+        return instances;
+      }
+
+      if (!module.default) {
+        throw new Error(`Load '${name}' does not export a default LoadFactory`);
+      }
+      console.log("found energy load", name);
+
+      const config = module.config ?? {
+        id: name as LoadId,
+        name,
+      };
+
+      return [
+        {
+          factory: module.default,
+          id: config.id as LoadId,
+          name: config.name,
+        },
+      ];
     }
-    console.log("found energy load", name);
-
-    const config = module.config ?? {
-      id: name as LoadId,
-      name,
-    };
-
-    return {
-      factory: module.default,
-      id: config.id as LoadId,
-      name: config.name,
-    };
-  });
+  );
@@ -21,7 +21,9 @@ import {
   debounce,
 } from "rxjs/operators";
 import ms from "ms";
-import { InputState, LoadFactory, LoadId, ManagedLoad } from "../types";
+import { DebugFn, InputState, LoadId, ManagedLoad } from "../types";
+import { IServicesCradle, Tesla } from "../../services/cradle";
+import { LoadDefinition } from "./index";
 
 /**
  * Configuration for energy management system
@@ -74,7 +76,8 @@ const ENERGY_CONFIG = {
   stopWindow: "3m" as const,
 } as const;
 
-export const CHARGE_LOAD_ID = "tesla-charging" as LoadId;
+export const chargeLoadId = (name: string) =>
+  `tesla-charging-${name}` as LoadId;
 
 /**
  * Tesla Ble + TeslaMate MQTT + Universal Mobile Charger charging
@@ -86,16 +89,17 @@ export const CHARGE_LOAD_ID = "tesla-charging" as LoadId;
  * - Optimistic state management for immediate response
  * - Priority based on battery level
  */
-const teslaChargingLoad: LoadFactory = (
-  { teslaBle, teslamateMqtt },
-  { debug }
-) => {
+const teslaChargingLoad = (
+  { name, ble: teslaBle, teslamate: teslamateMqtt }: Tesla,
+  { debug }: { debug: DebugFn }
+): ManagedLoad => {
+  const loadId = chargeLoadId(name);
   const input$ = new BehaviorSubject<Observable<InputState> | null>(null);
 
   // Allocated power target (set by load manager)
   const allocatedPower$ = input$.pipe(
     switchMap((input) => input ?? EMPTY),
-    map((input) => input.allocatedPower[CHARGE_LOAD_ID] ?? 0)
+    map((input) => input.allocatedPower[loadId] ?? 0)
   );
 
   // Expected state (optimistic) - updated immediately on commands
@@ -344,7 +348,7 @@ const teslaChargingLoad: LoadFactory = (
       }))
     ),
     power$: powerState$,
-    id: CHARGE_LOAD_ID,
+    id: loadId,
     // Start accepts the input$ from the main automation and runs the load.
     // It also reacts to the input$ values and makes sure the run effect reacts to it.
     start: (inputObservable$) => {
@@ -355,9 +359,12 @@ const teslaChargingLoad: LoadFactory = (
   } satisfies ManagedLoad;
 };
 
-export default teslaChargingLoad;
-
-export const config = {
-  id: CHARGE_LOAD_ID,
-  name: "Tesla Model 3 Charging",
-} as const;
+/**
+ * One charging load per configured car.
+ */
+export const instances = ({ teslas }: IServicesCradle): LoadDefinition[] =>
+  teslas.map((tesla) => ({
+    factory: (_cradle, options) => teslaChargingLoad(tesla, options),
+    id: chargeLoadId(tesla.name),
+    name: `Tesla ${tesla.name} Charging`,
+  }));
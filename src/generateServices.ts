@@ -0,0 +1,58 @@
+import DEBUG from "debug";
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { format, resolveConfig } from "prettier";
+import { from } from "rxjs";
+import { map, switchMap } from "rxjs/operators";
+
+import {
+  catalogueModule,
+  generateServiceTypes,
+} from "./helpers/generateServiceTypes";
+import cradle from "./services/cradle";
+
+const debug = DEBUG("r-h.generate-services");
+
+const output = process.argv[2] ?? "./src/generated/services.ts";
+
+/**
+ * Asks HA for every service it knows and writes the types for them.
+ * Afterwards Service.call$ knows the fields of every service on our instance.
+ */
+cradle.socket
+  .invoke$({ type: "get_services" })
+  .pipe(
+    map((reply) => {
+      if (!reply.success) {
+        throw new Error(`get_services failed: ${reply.error?.message}`);
+      }
+
+      debug(
+        "received services for %d domains",
+        Object.keys(reply.result).length
+      );
+      return generateServiceTypes(reply.result, catalogueModule(output));
+    }),
+    switchMap((source) =>
+      from(
+        resolveConfig(output).then((options) =>
+          format(source, { ...options, filepath: output })
+        )
+      )
+    )
+  )
+  .subscribe({
+    next(source) {
+      mkdirSync(dirname(output), { recursive: true });
+      writeFileSync(output, source);
+      console.log(`wrote the service types to ${output}`);
+    },
+    error(e) {
+      console.error("generating the service types failed", e);
+      process.exit(1);
+    },
+    complete() {
+      // The socket keeps the process alive.
+      process.exit(0);
+    },
+  });
@@ -9,6 +9,7 @@ import {
   SubjectLike,
 } from "rxjs";
 import {
+  ignoreElements,
   map,
   mergeMapTo,
   pluck,
@@ -24,7 +25,7 @@ type ValueControlPayload<T> = {
   defaultState: T;
   subject?: SubjectLike<T>;
   run$: Observable<unknown>;
-  emit$: (value: boolean) => Observable<T>;
+  emit$: (value: T) => Observable<unknown>;
 };
 
 type ValueControlState<T> = {
@@ -56,8 +57,10 @@ export class ValueControl<T> {
       tap((v) => debug("set", v)),
       switchMap((value) => {
         debug("publishing!");
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return concat(this.payload.emit$(value as any), of(value));
+        return concat(
+          this.payload.emit$(value as T).pipe(ignoreElements()),
+          of(value)
+        );
       }),
       map((current) => {
         debug("getting value", current);
@@ -0,0 +1,145 @@
+import { applyStatesUpdates } from "./applyStatesUpdates";
+import { HassEntities } from "../types";
+
+const LC = 1700000000;
+const LU = 1700000060;
+
+describe("applyStatesUpdates", () => {
+  it("should add new entities with expanded fields", () => {
+    const result = applyStatesUpdates(
+      {},
+      {
+        a: {
+          "light.kitchen": {
+            s: "on",
+            a: { brightness: 255 },
+            c: "ctx-1",
+            lc: LC,
+            lu: LU,
+          },
+        },
+      }
+    );
+
+    expect(result).toEqual({
+      "light.kitchen": {
+        entity_id: "light.kitchen",
+        state: "on",
+        attributes: { brightness: 255 },
+        context: { id: "ctx-1", parent_id: null, user_id: null },
+        last_changed: new Date(LC * 1000).toISOString(),
+        last_updated: new Date(LU * 1000).toISOString(),
+      },
+    });
+  });
+
+  it("should fall back to last_changed when last_updated is missing", () => {
+    const result = applyStatesUpdates(
+      {},
+      {
+        a: {
+          "sensor.power": { s: "12", a: {}, c: "ctx", lc: LC, lu: 0 },
+        },
+      }
+    );
+
+    expect(result["sensor.power"].last_updated).toBe(
+      new Date(LC * 1000).toISOString()
+    );
+  });
+
+  it("should apply diffs and keep untouched entities as is", () => {
+    const initial = applyStatesUpdates(
+      {},
+      {
+        a: {
+          "light.kitchen": {
+            s: "on",
+            a: { brightness: 255, color_mode: "xy" },
+            c: "ctx-1",
+            lc: LC,
+            lu: LC,
+          },
+          "light.hallway": { s: "off", a: {}, c: "ctx-2", lc: LC, lu: LC },
+        },
+      }
+    );
+
+    const result = applyStatesUpdates(initial, {
+      c: {
+        "light.kitchen": {
+          "+": { s: "off", a: { brightness: 0 }, c: "ctx-3", lc: LU },
+          "-": { a: ["color_mode"] },
+        },
+      },
+    });
+
+    expect(result["light.kitchen"]).toEqual({
+      entity_id: "light.kitchen",
+      state: "off",
+      attributes: { brightness: 0 },
+      context: { id: "ctx-3", parent_id: null, user_id: null },
+      last_changed: new Date(LU * 1000).toISOString(),
+      last_updated: new Date(LU * 1000).toISOString(),
+    });
+    expect(result["light.hallway"]).toBe(initial["light.hallway"]);
+  });
+
+  it("should only touch last_updated when the state did not change", () => {
+    const initial = applyStatesUpdates(
+      {},
+      { a: { "sensor.power": { s: "12", a: {}, c: "ctx", lc: LC, lu: LC } } }
+    );
+
+    const result = applyStatesUpdates(initial, {
+      c: { "sensor.power": { "+": { lu: LU } } },
+    });
+
+    expect(result["sensor.power"].last_changed).toBe(
+      new Date(LC * 1000).toISOString()
+    );
+    expect(result["sensor.power"].last_updated).toBe(
+      new Date(LU * 1000).toISOString()
+    );
+  });
+
+  it("should remove entities", () => {
+    const initial = applyStatesUpdates(
+      {},
+      { a: { "sensor.power": { s: "12", a: {}, c: "ctx", lc: LC, lu: LC } } }
+    );
+
+    expect(applyStatesUpdates(initial, { r: ["sensor.power"] })).toEqual({});
+  });
+
+  it("should ignore diffs for unknown entities", () => {
+    expect(
+      applyStatesUpdates({}, { c: { "sensor.unknown": { "+": { s: "1" } } } })
+    ).toEqual({});
+  });
+
+  it("should not mutate the input", () => {
+    const initial: HassEntities = applyStatesUpdates(
+      {},
+      {
+        a: {
+          "sensor.power": {
+            s: "12",
+            a: { unit: "W" },
+            c: "ctx",
+            lc: LC,
+            lu: LC,
+          },
+        },
+      }
+    );
+    const copy = JSON.parse(JSON.stringify(initial));
+
+    applyStatesUpdates(initial, {
+      c: { "sensor.power": { "+": { s: "13" }, "-": { a: ["unit"] } } },
+      r: [],
+    });
+
+    expect(initial).toEqual(copy);
+  });
+});
@@ -0,0 +1,84 @@
+import { CompressedStatesUpdates, Context, HassEntities } from "../types";
+
+function toIsoString(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+function toContext(context: Context | string): Context {
+  return typeof context === "string"
+    ? { id: context, parent_id: null, user_id: null }
+    : context;
+}
+
+/**
+ * Applies a subscribe_entities update to the known entities.
+ *
+ * Never mutates the input. Entities which did not change keep their reference,
+ * so a plain distinctUntilChanged() is enough to only see real changes.
+ *
+ * @param entities - The entities we know about so far
+ * @param updates - Added (a), changed (c) and removed (r) entities from HA
+ * @returns The new set of entities
+ */
+export function applyStatesUpdates(
+  entities: HassEntities,
+  updates: CompressedStatesUpdates
+): HassEntities {
+  const next = { ...entities };
+
+  for (const [entityId, added] of Object.entries(updates.a ?? {})) {
+    const lastChanged = toIsoString(added.lc);
+
+    next[entityId] = {
+      entity_id: entityId,
+      state: added.s,
+      attributes: added.a,
+      context: toContext(added.c),
+      last_changed: lastChanged,
+      last_updated: added.lu ? toIsoString(added.lu) : lastChanged,
+    };
+  }
+
+  for (const entityId of updates.r ?? []) {
+    delete next[entityId];
+  }
+
+  for (const [entityId, diff] of Object.entries(updates.c ?? {})) {
+    const current = next[entityId];
+    if (!current) {
+      continue;
+    }
+
+    const entity = { ...current, attributes: { ...current.attributes } };
+    const toAdd = diff["+"];
+
+    if (toAdd) {
+      if (toAdd.s !== undefined) {
+        entity.state = toAdd.s;
+      }
+
+      if (toAdd.c) {
+        entity.context =
+          typeof toAdd.c === "string"
+            ? { ...entity.context, id: toAdd.c }
+            : { ...entity.context, ...toAdd.c };
+      }
+
+      if (toAdd.lc) {
+        entity.last_changed = entity.last_updated = toIsoString(toAdd.lc);
+      } else if (toAdd.lu) {
+        entity.last_updated = toIsoString(toAdd.lu);
+      }
+
+      Object.assign(entity.attributes, toAdd.a);
+    }
+
+    for (const key of diff["-"]?.a ?? []) {
+      delete entity.attributes[key];
+    }
+
+    next[entityId] = entity;
+  }
+
+  return next;
+}
@@ -1,7 +1,7 @@
 import { Observable } from "rxjs";
 import { distinctUntilChanged, map, share } from "rxjs/operators";
-import ms from "ms";
 import { rollingAverage, AggregationFn } from "./operators/rollingAverage";
+import { toMs } from "./toMs";
 
 /**
  * Creates a rolling average of the source observable.
@@ -21,7 +21,7 @@ export function createRollingAverage$(
   windowSize: number | string,
   aggregationFn?: AggregationFn
 ): Observable<number> {
-  const windowMs = typeof windowSize === "string" ? ms(windowSize) : windowSize;
+  const windowMs = toMs(windowSize);
   return source$.pipe(
     rollingAverage(windowMs, aggregationFn),
     map((v) => Math.floor(v)),
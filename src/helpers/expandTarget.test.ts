@@ -0,0 +1,100 @@
+import {
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  EntityRegistryEntry,
+} from "../types";
+import { expandTarget, TargetRegistries } from "./expandTarget";
+
+const area = (areaId: string, fields: Partial<AreaRegistryEntry> = {}) =>
+  ({
+    area_id: areaId,
+    floor_id: null,
+    labels: [],
+    ...fields,
+  }) as AreaRegistryEntry;
+
+const device = (id: string, fields: Partial<DeviceRegistryEntry> = {}) =>
+  ({ id, area_id: null, labels: [], ...fields }) as DeviceRegistryEntry;
+
+const entity = (entityId: string, fields: Partial<EntityRegistryEntry> = {}) =>
+  ({
+    entity_id: entityId,
+    device_id: null,
+    area_id: null,
+    labels: [],
+    entity_category: null,
+    hidden_by: null,
+    ...fields,
+  }) as EntityRegistryEntry;
+
+const registries: TargetRegistries = {
+  areas: [
+    area("living_room", { floor_id: "downstairs" }),
+    area("hallway", { floor_id: "downstairs", labels: ["lighting"] }),
+    area("attic", { floor_id: "upstairs" }),
+  ],
+  devices: [
+    device("hue-1", { area_id: "living_room" }),
+    device("motion-1", { area_id: "hallway" }),
+    device("boiler", { labels: ["solar_load"] }),
+  ],
+  entities: [
+    entity("light.couch", { device_id: "hue-1" }),
+    entity("light.reading", { device_id: "hue-1", area_id: "attic" }),
+    entity("sensor.hue_1_signal", {
+      device_id: "hue-1",
+      entity_category: "diagnostic",
+    }),
+    entity("binary_sensor.hallway_motion", { device_id: "motion-1" }),
+    entity("switch.boiler", { device_id: "boiler" }),
+    entity("switch.dishwasher", { labels: ["solar_load"] }),
+  ],
+};
+
+describe("expandTarget", () => {
+  it("should keep entity ids as they are", () => {
+    expect(
+      expandTarget({ entity_id: ["light.unknown", "light.couch"] }, registries)
+    ).toEqual(["light.unknown", "light.couch"]);
+  });
+
+  it("should expand an area through the devices in it", () => {
+    expect(expandTarget({ area_id: "living_room" }, registries)).toEqual([
+      "light.couch",
+    ]);
+  });
+
+  it("should expand a device into all its entities, except config and diagnostic ones", () => {
+    expect(expandTarget({ device_id: "hue-1" }, registries)).toEqual([
+      "light.couch",
+      "light.reading",
+    ]);
+  });
+
+  it("should expand a floor into its areas", () => {
+    expect(expandTarget({ floor_id: "downstairs" }, registries)).toEqual([
+      "light.couch",
+      "binary_sensor.hallway_motion",
+    ]);
+  });
+
+  it("should expand labels on entities, devices and areas", () => {
+    expect(expandTarget({ label_id: "solar_load" }, registries)).toEqual([
+      "switch.boiler",
+      "switch.dishwasher",
+    ]);
+    expect(expandTarget({ label_id: "lighting" }, registries)).toEqual([
+      "binary_sensor.hallway_motion",
+    ]);
+  });
+
+  it("should only keep the entities of the domain", () => {
+    expect(
+      expandTarget(
+        { floor_id: ["downstairs", "upstairs"] },
+        registries,
+        "light"
+      )
+    ).toEqual(["light.couch", "light.reading"]);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  EntityRegistryEntry,
+  HassServiceTarget,
+} from "../types";
+
+export type TargetRegistries = {
+  areas: AreaRegistryEntry[];
+  devices: DeviceRegistryEntry[];
+  entities: EntityRegistryEntry[];
+};
+
+function toList(value?: string | string[]): string[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Expands a service target into the entity ids HA will call the service for.
+ *
+ * Labels and floors expand into areas, areas into devices and devices into entities.
+ * Just like HA, entities of an area or device are skipped when they are hidden or a config or diagnostic entity.
+ * Entities with an area of their own do not follow their device into its area.
+ *
+ * @param target - The entity, device, area, floor and label ids to expand
+ * @param registries - The area, device and entity registries of HA
+ * @param domain - Only keep the entities of this domain
+ * @returns The entity ids, without duplicates
+ */
+export function expandTarget(
+  target: HassServiceTarget,
+  { areas, devices, entities }: TargetRegistries,
+  domain?: string
+): string[] {
+  const labelIds = toList(target.label_id);
+  const floorIds = toList(target.floor_id);
+  const hasLabel = (labels: string[]) =>
+    labels.some((label) => labelIds.includes(label));
+
+  const areaIds = new Set([
+    ...toList(target.area_id),
+    ...areas
+      .filter(
+        (area) =>
+          hasLabel(area.labels) ||
+          (!!area.floor_id && floorIds.includes(area.floor_id))
+      )
+      .map((area) => area.area_id),
+  ]);
+
+  const deviceIds = new Set([
+    ...toList(target.device_id),
+    ...devices
+      .filter((device) => hasLabel(device.labels))
+      .map((device) => device.id),
+  ]);
+
+  const areaDeviceIds = new Set(
+    devices
+      .filter((device) => !!device.area_id && areaIds.has(device.area_id))
+      .map((device) => device.id)
+  );
+
+  const entityIds = new Set(toList(target.entity_id));
+
+  for (const entity of entities) {
+    if (hasLabel(entity.labels)) {
+      entityIds.add(entity.entity_id);
+      continue;
+    }
+
+    if (entity.entity_category || entity.hidden_by) {
+      continue;
+    }
+
+    const inArea = entity.area_id
+      ? areaIds.has(entity.area_id)
+      : !!entity.device_id && areaDeviceIds.has(entity.device_id);
+    const onDevice = !!entity.device_id && deviceIds.has(entity.device_id);
+
+    if (inArea || onDevice) {
+      entityIds.add(entity.entity_id);
+    }
+  }
+
+  return [...entityIds].filter(
+    (entityId) => !domain || entityId.startsWith(`${domain}.`)
+  );
+}
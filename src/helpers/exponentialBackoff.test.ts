@@ -0,0 +1,41 @@
+import { exponentialBackoff } from "./exponentialBackoff";
+
+describe("exponentialBackoff", () => {
+  it("should wait the initial delay on the first attempt", () => {
+    expect(exponentialBackoff(1, { initialDelay: 1000, maxDelay: 60000 })).toBe(
+      1000
+    );
+  });
+
+  it("should double the delay for every attempt by default", () => {
+    const options = { initialDelay: 1000, maxDelay: 60000 };
+
+    expect(exponentialBackoff(2, options)).toBe(2000);
+    expect(exponentialBackoff(3, options)).toBe(4000);
+    expect(exponentialBackoff(4, options)).toBe(8000);
+  });
+
+  it("should use a custom factor", () => {
+    expect(
+      exponentialBackoff(3, { initialDelay: 100, maxDelay: 60000, factor: 3 })
+    ).toBe(900);
+  });
+
+  it("should never exceed the max delay", () => {
+    expect(
+      exponentialBackoff(20, { initialDelay: 1000, maxDelay: 60000 })
+    ).toBe(60000);
+  });
+
+  it("should accept duration strings", () => {
+    expect(exponentialBackoff(2, { initialDelay: "1s", maxDelay: "1m" })).toBe(
+      2000
+    );
+  });
+
+  it("should treat attempts below 1 as the first attempt", () => {
+    expect(exponentialBackoff(0, { initialDelay: 1000, maxDelay: 60000 })).toBe(
+      1000
+    );
+  });
+});
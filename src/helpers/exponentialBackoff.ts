@@ -0,0 +1,38 @@
+import { toMs } from "./toMs";
+
+export type BackoffOptions = {
+  /**
+   * Delay before the first retry. Number in ms or string like "1s".
+   */
+  initialDelay: number | string;
+  /**
+   * Upper bound for the delay. Number in ms or string like "1m".
+   */
+  maxDelay: number | string;
+  /**
+   * Multiplier applied for every consecutive attempt. Defaults to 2.
+   */
+  factor?: number;
+};
+
+/**
+ * Calculates how long to wait before the given retry attempt.
+ *
+ * Attempts start counting at 1, which waits for the initial delay.
+ * Every attempt after that multiplies the delay by the factor until it hits the max delay.
+ *
+ * @param attempt - The 1-based retry attempt
+ * @param options - Initial delay, max delay and growth factor
+ * @returns Delay in milliseconds
+ */
+export function exponentialBackoff(
+  attempt: number,
+  { initialDelay, maxDelay, factor = 2 }: BackoffOptions
+): number {
+  const exponent = Math.max(0, attempt - 1);
+
+  return Math.min(
+    toMs(maxDelay),
+    toMs(initialDelay) * Math.pow(factor, exponent)
+  );
+}
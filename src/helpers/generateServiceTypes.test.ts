@@ -0,0 +1,118 @@
+import { join } from "path";
+import {
+  catalogueModule,
+  generateServiceTypes,
+  selectorType,
+} from "./generateServiceTypes";
+import { HassServices } from "../types";
+
+const SERVICES: HassServices = {
+  light: {
+    turn_on: {
+      name: "Turn on",
+      description: "Turns on one or more lights.",
+      fields: {
+        transition: {
+          description: "Duration it takes to get to the next state.",
+          example: 60,
+          selector: { number: { min: 0, max: 300 } },
+        },
+        advanced_fields: {
+          collapsed: true,
+          fields: {
+            flash: {
+              description: "Tell light to flash.",
+              example: "short",
+              selector: { select: { options: ["long", "short"] } },
+            },
+          },
+        },
+      },
+    },
+  },
+  "input-weird": {
+    reload: { description: "Reloads.", fields: {} },
+  },
+  notify: {
+    mobile_app_phone: {
+      description: "Sends a notification.",
+      fields: {
+        message: {
+          description: "The message.",
+          example: "Hello",
+          required: true,
+          selector: { text: null },
+        },
+      },
+    },
+  },
+};
+
+describe("generateServiceTypes", () => {
+  const output = generateServiceTypes(SERVICES);
+
+  it("should augment the generated service catalogue", () => {
+    expect(output).toContain('declare module "../services/ServiceCatalogue"');
+    expect(output).toContain("interface GeneratedServiceCatalogue");
+  });
+
+  it("should type the fields, also the ones in a section", () => {
+    expect(output).toContain("transition?: number;");
+    expect(output).toContain('flash?: "long" | "short";');
+  });
+
+  it("should only make required fields mandatory", () => {
+    expect(output).toContain("message: string;");
+  });
+
+  it("should quote domains which are no identifiers", () => {
+    expect(output).toContain('"input-weird": {');
+    expect(output).toContain("reload: Record<string, never>;");
+  });
+
+  it("should keep the descriptions as doc comments", () => {
+    expect(output).toContain("* Turns on one or more lights.");
+  });
+});
+
+describe("catalogueModule", () => {
+  const tests: [string, string][] = [
+    ["generated/services.ts", "../services/ServiceCatalogue"],
+    ["services.generated.ts", "./services/ServiceCatalogue"],
+    ["../types/services.ts", "../src/services/ServiceCatalogue"],
+  ];
+
+  tests.forEach(([output, expected]) => {
+    it(`should import ${expected} from src/${output}`, () => {
+      expect(catalogueModule(join(__dirname, "..", output))).toBe(expected);
+    });
+  });
+
+  it("should be used for the module augmentation", () => {
+    expect(
+      generateServiceTypes(SERVICES, "./services/ServiceCatalogue")
+    ).toContain('declare module "./services/ServiceCatalogue"');
+  });
+});
+
+describe("selectorType", () => {
+  const tests: [object | undefined, string][] = [
+    [undefined, "unknown"],
+    [{ boolean: {} }, "boolean"],
+    [{ text: { multiple: true } }, "string[]"],
+    [{ entity: { domain: "light" } }, "string | string[]"],
+    [{ entity: { multiple: true } }, "string[]"],
+    [{ color_rgb: {} }, "[number, number, number]"],
+    [
+      { select: { options: [{ value: "a", label: "A" }], multiple: true } },
+      '("a")[]',
+    ],
+    [{ something_new: {} }, "unknown"],
+  ];
+
+  tests.forEach(([selector, expected]) => {
+    it(`should turn ${JSON.stringify(selector)} into ${expected}`, () => {
+      expect(selectorType(selector)).toBe(expected);
+    });
+  });
+});
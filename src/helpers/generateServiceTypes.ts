@@ -0,0 +1,175 @@
+import { dirname, join, relative, sep } from "path";
+import {
+  HassService,
+  HassServiceField,
+  HassServiceFieldSection,
+  HassServices,
+} from "../types";
+
+/**
+ * Turns the get_services response of HA into TypeScript types for the ServiceCatalogue.
+ * The catalogue module is relative to the generated file, see catalogueModule.
+ * https://developers.home-assistant.io/docs/dev_101_services/#service-descriptions
+ */
+export function generateServiceTypes(
+  services: HassServices,
+  catalogueModule = "../services/ServiceCatalogue"
+): string {
+  const domains = Object.entries(services)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([domain, domainServices]) => {
+      const body = Object.entries(domainServices)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, service]) => serviceType(name, service))
+        .join("\n");
+
+      return `    ${propertyName(domain)}: {\n${body}\n    };`;
+    })
+    .join("\n");
+
+  return [
+    "// Generated from the services of our HA instance by `npm run generate:services`. Do not edit.",
+    "",
+    "export {};",
+    "",
+    `declare module "${catalogueModule}" {`,
+    "  interface GeneratedServiceCatalogue {",
+    domains,
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * The import path of the ServiceCatalogue from the file the types are written to.
+ */
+export function catalogueModule(output: string): string {
+  const path = relative(
+    dirname(output),
+    join(__dirname, "..", "services", "ServiceCatalogue")
+  )
+    .split(sep)
+    .join("/");
+
+  return path.startsWith(".") ? path : `./${path}`;
+}
+
+function serviceType(name: string, service: HassService): string {
+  const fields = Object.entries(flattenFields(service.fields))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([fieldName, field]) => {
+      const optional = field.required ? "" : "?";
+
+      return [
+        comment(field.description, "        "),
+        `        ${propertyName(fieldName)}${optional}: ${selectorType(field.selector)};`,
+      ]
+        .filter((line) => line)
+        .join("\n");
+    });
+
+  const type =
+    fields.length === 0
+      ? "Record<string, never>"
+      : `{\n${fields.join("\n")}\n      }`;
+
+  return [
+    comment(service.description, "      "),
+    `      ${propertyName(name)}: ${type};`,
+  ]
+    .filter((line) => line)
+    .join("\n");
+}
+
+function flattenFields(
+  fields: HassService["fields"]
+): Record<string, HassServiceField> {
+  return Object.entries(fields).reduce(
+    (flat, [name, field]) => {
+      if (isSection(field)) {
+        return { ...flat, ...field.fields };
+      }
+
+      return { ...flat, [name]: field };
+    },
+    {} as Record<string, HassServiceField>
+  );
+}
+
+function isSection(
+  field: HassServiceField | HassServiceFieldSection
+): field is HassServiceFieldSection {
+  return "fields" in field && typeof field.fields === "object";
+}
+
+/**
+ * https://www.home-assistant.io/docs/blueprint/selectors/
+ */
+export function selectorType(selector?: object): string {
+  if (!selector) {
+    return "unknown";
+  }
+
+  const [kind, options] = Object.entries(selector)[0] ?? ["", null];
+  const multiple = !!(options as { multiple?: boolean } | null)?.multiple;
+  const many = (type: string) => (multiple ? `${type}[]` : type);
+
+  switch (kind) {
+    case "number":
+    case "color_temp":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "text":
+    case "time":
+    case "date":
+    case "datetime":
+    case "icon":
+    case "template":
+    case "theme":
+      return many("string");
+    case "entity":
+    case "device":
+    case "area":
+    case "floor":
+    case "label":
+      return multiple ? "string[]" : "string | string[]";
+    case "color_rgb":
+      return "[number, number, number]";
+    case "duration":
+      return "{ days?: number; hours?: number; minutes?: number; seconds?: number }";
+    case "object":
+      return "Record<string, unknown>";
+    case "select": {
+      const values = (
+        (options as { options?: (string | { value: string })[] } | null)
+          ?.options ?? []
+      ).map((option) =>
+        JSON.stringify(typeof option === "string" ? option : option.value)
+      );
+
+      if (values.length === 0) {
+        return many("string");
+      }
+
+      return multiple ? `(${values.join(" | ")})[]` : values.join(" | ");
+    }
+    default:
+      return "unknown";
+  }
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function comment(description: string | undefined, indent: string): string {
+  if (!description) {
+    return "";
+  }
+
+  const text = description.replace(/\*\//g, "* /").replace(/\s+/g, " ").trim();
+
+  return `${indent}/**\n${indent} * ${text}\n${indent} */`;
+}
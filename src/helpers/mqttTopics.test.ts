@@ -0,0 +1,104 @@
+import {
+  extractParams,
+  hasWildcards,
+  matchesTopic,
+  parseDiscoveryTopic,
+  patternToFilter,
+} from "./mqttTopics";
+
+describe("mqttTopics", () => {
+  describe("matchesTopic", () => {
+    const tests: [string, string, boolean][] = [
+      ["hass/status", "hass/status", true],
+      ["hass/status", "hass/status/extra", false],
+      ["hass/+", "hass/status", true],
+      ["hass/+", "hass", false],
+      ["hass/+", "hass/", true],
+      ["+/+", "hass/status", true],
+      ["teslamate/cars/+/geofence", "teslamate/cars/1/geofence", true],
+      ["teslamate/cars/+/geofence", "teslamate/cars/1/state", false],
+      ["teslamate/#", "teslamate/cars/1/state", true],
+      ["teslamate/#", "teslamate", true],
+      ["#", "anything/at/all", true],
+      ["#", "$SYS/broker/uptime", false],
+      ["+/broker/uptime", "$SYS/broker/uptime", false],
+      ["$SYS/#", "$SYS/broker/uptime", true],
+    ];
+
+    test.each(tests)("%s matches %s: %s", (filter, topic, expected) => {
+      expect(matchesTopic(filter, topic)).toBe(expected);
+    });
+  });
+
+  it("should detect wildcards", () => {
+    expect(hasWildcards("hass/status")).toBe(false);
+    expect(hasWildcards("hass/+")).toBe(true);
+    expect(hasWildcards("hass/#")).toBe(true);
+    expect(hasWildcards("hass/a+b")).toBe(false);
+  });
+
+  it("should turn a pattern into a topic filter", () => {
+    expect(patternToFilter("teslamate/cars/:carId/:field")).toBe(
+      "teslamate/cars/+/+"
+    );
+    expect(patternToFilter("frigate/:camera/#")).toBe("frigate/+/#");
+  });
+
+  it("should extract named levels from a topic", () => {
+    expect(
+      extractParams("teslamate/cars/:carId/:field", "teslamate/cars/1/geofence")
+    ).toEqual({ carId: "1", field: "geofence" });
+  });
+
+  it("should extract named levels in front of a multi-level wildcard", () => {
+    expect(
+      extractParams("frigate/:camera/#", "frigate/driveway/person/snapshot")
+    ).toEqual({ camera: "driveway" });
+  });
+
+  it("should return null when the topic does not match", () => {
+    expect(
+      extractParams("teslamate/cars/:carId/:field", "zigbee2mqtt/lamp")
+    ).toBeNull();
+  });
+
+  it("should recognise topics of our own discovery entities", () => {
+    expect(
+      parseDiscoveryTopic(
+        "homeassistant/switch/reactive_hass-switch-greeter/state",
+        "homeassistant",
+        "reactive_hass"
+      )
+    ).toEqual({
+      category: "switch",
+      uniqueId: "reactive_hass-switch-greeter",
+      root: "homeassistant/switch/reactive_hass-switch-greeter",
+    });
+  });
+
+  it("should ignore discovery topics of others", () => {
+    expect(
+      parseDiscoveryTopic(
+        "homeassistant/switch/0x00158d0001/config",
+        "homeassistant",
+        "reactive_hass"
+      )
+    ).toBeNull();
+    expect(
+      parseDiscoveryTopic(
+        "homeassistant/reactive-hass/availability",
+        "homeassistant",
+        "reactive_hass"
+      )
+    ).toBeNull();
+  });
+
+  it("should recognise entities without an id prefix", () => {
+    expect(
+      parseDiscoveryTopic(
+        "homeassistant/sensor/sensor-leeching/config",
+        "homeassistant"
+      )?.uniqueId
+    ).toBe("sensor-leeching");
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Helpers to work with MQTT topic filters.
+ * https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901241
+ */
+
+/**
+ * Whether the topic filter contains a + or # wildcard.
+ */
+export function hasWildcards(filter: string): boolean {
+  return filter.split("/").some((level) => level === "+" || level === "#");
+}
+
+/**
+ * Checks if a topic matches a topic filter with + and # wildcards.
+ *
+ * Topics starting with $ (like $SYS) are never matched by a leading wildcard.
+ */
+export function matchesTopic(filter: string, topic: string): boolean {
+  const filterLevels = filter.split("/");
+  const topicLevels = topic.split("/");
+
+  if (
+    topic.startsWith("$") &&
+    (filterLevels[0] === "+" || filterLevels[0] === "#")
+  ) {
+    return false;
+  }
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    const level = filterLevels[i];
+
+    if (level === "#") {
+      return true;
+    }
+
+    if (i >= topicLevels.length) {
+      return false;
+    }
+
+    if (level !== "+" && level !== topicLevels[i]) {
+      return false;
+    }
+  }
+
+  return filterLevels.length === topicLevels.length;
+}
+
+/**
+ * Turns a pattern like "teslamate/cars/:carId/:field" into the topic filter "teslamate/cars/+/+".
+ */
+export function patternToFilter(pattern: string): string {
+  return pattern
+    .split("/")
+    .map((level) => (level.startsWith(":") ? "+" : level))
+    .join("/");
+}
+
+/**
+ * Extracts the named levels of a pattern from a topic.
+ * Returns null when the topic does not match the pattern.
+ *
+ * extractParams("teslamate/cars/:carId/:field", "teslamate/cars/1/geofence")
+ * // { carId: "1", field: "geofence" }
+ */
+export function extractParams(
+  pattern: string,
+  topic: string
+): Record<string, string> | null {
+  if (!matchesTopic(patternToFilter(pattern), topic)) {
+    return null;
+  }
+
+  const topicLevels = topic.split("/");
+
+  return pattern.split("/").reduce(
+    (params, level, i) => {
+      if (level.startsWith(":")) {
+        params[level.slice(1)] = topicLevels[i];
+      }
+
+      return params;
+    },
+    {} as Record<string, string>
+  );
+}
+
+export type DiscoveryTopic = {
+  category: string;
+  uniqueId: string;
+  /**
+   * The topic every other topic of the entity lives under.
+   */
+  root: string;
+};
+
+/**
+ * Recognises topics below the root of an entity created by Discovery.
+ * Those look like "<discoveryPrefix>/<category>/<idPrefix>-<category>-<id>/...".
+ * Returns null for topics of anyone else.
+ */
+export function parseDiscoveryTopic(
+  topic: string,
+  discoveryPrefix: string,
+  idPrefix?: string
+): DiscoveryTopic | null {
+  const prefixLevels = discoveryPrefix.split("/");
+  const topicLevels = topic.split("/");
+
+  if (
+    topicLevels.length < prefixLevels.length + 3 ||
+    prefixLevels.some((level, i) => level !== topicLevels[i])
+  ) {
+    return null;
+  }
+
+  const [category, uniqueId] = topicLevels.slice(prefixLevels.length);
+  const ownPrefix = [idPrefix, category].filter((v) => v).join("-") + "-";
+
+  if (!uniqueId.startsWith(ownPrefix)) {
+    return null;
+  }
+
+  return {
+    category,
+    uniqueId,
+    root: topicLevels.slice(0, prefixLevels.length + 2).join("/"),
+  };
+}
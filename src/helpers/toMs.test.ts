@@ -0,0 +1,12 @@
+import { toMs } from "./toMs";
+
+describe("toMs", () => {
+  it("should keep numbers as they are", () => {
+    expect(toMs(1500)).toBe(1500);
+  });
+
+  it("should parse strings like 5s or 1m", () => {
+    expect(toMs("5s")).toBe(5000);
+    expect(toMs("1m")).toBe(60000);
+  });
+});
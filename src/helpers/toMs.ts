@@ -0,0 +1,8 @@
+import ms from "ms";
+
+/**
+ * A duration as a number in ms or a string like "5s" or "1m", in ms.
+ */
+export function toMs(value: number | string): number {
+  return typeof value === "string" ? ms(value) : value;
+}
@@ -1,20 +1,26 @@
 import DEBUG from "debug";
-import { merge, timer } from "rxjs";
+import { EMPTY, merge, timer } from "rxjs";
 
 import { catchError, switchMap, tap } from "rxjs/operators";
 
 import sensors$ from "./sensors/index";
 import automations$ from "./automations/index";
 import energy$ from "./energy/index";
+import servicesCradle from "./services/cradle";
 
 const debug = DEBUG("r-h.index");
 
-// NOTE: This is not ideal. But using RxJS causes a lot of listeners to build up at once.
-//       I should hunt down where exactly the issue is. Perhaps it could be avoided by sharing.
-
-require("events").EventEmitter.defaultMaxListeners = Infinity;
-
-const process$ = merge(sensors$, automations$, energy$).pipe(
+// Running a single automation only knows about a fraction of our entities.
+const garbageCollection$ = process.env.RUN
+  ? EMPTY
+  : servicesCradle.cleaner.collectGarbage$();
+
+const process$ = merge(
+  sensors$,
+  automations$,
+  energy$,
+  garbageCollection$
+).pipe(
   tap((output) => {
     debug(output);
   })
@@ -1,4 +1,18 @@
-export type SensorConfig = {
-  type: "binary";
-  name?: string;
-};
+export type SensorConfig =
+  | {
+      type: "binary";
+      name?: string;
+    }
+  | {
+      type: "numeric";
+      name?: string;
+      unitOfMeasurement?: string;
+      deviceClass?: string;
+      stateClass?: "measurement" | "total" | "total_increasing";
+      icon?: string;
+    }
+  | {
+      type: "text";
+      name?: string;
+      icon?: string;
+    };
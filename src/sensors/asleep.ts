@@ -1,7 +1,7 @@
+import convict from "convict";
 import { interval, Observable, of } from "rxjs";
 import {
   map,
-  pluck,
   combineLatestWith,
   startWith,
   distinctUntilChanged,
@@ -9,6 +9,31 @@ import {
 import inTimeRange from "../helpers/inTimeRange";
 import { IServicesCradle } from "../services/cradle";
 import { SensorConfig } from "../types";
+import { SensorOptions } from "./index";
+
+type Settings = {
+  batteryStateEntity: string;
+  bedtimeStart: string;
+  bedtimeEnd: string;
+};
+
+export const schema: convict.Schema<Settings> = {
+  batteryStateEntity: {
+    doc: "The battery state of the phone which gets charged every night.",
+    format: String,
+    default: "sensor.vincents_iphone_battery_state",
+  },
+  bedtimeStart: {
+    doc: "From when plugging in the phone means going to sleep.",
+    format: String,
+    default: "21:30",
+  },
+  bedtimeEnd: {
+    doc: "Until when plugging in the phone means going to sleep.",
+    format: String,
+    default: "04:00",
+  },
+};
 
 function inTimeRange$(start: string, stop: string): Observable<boolean> {
   const check = inTimeRange(start, stop);
@@ -28,19 +53,21 @@ function inTimeRange$(start: string, stop: string): Observable<boolean> {
  * TODO: Also check if there was some upstairs motion a little bit before plugging in.
  * That way we know it with a little bit more certainty.
  */
-export default function asleep$(cradle: IServicesCradle): Observable<boolean> {
+export default function asleep$(
+  cradle: IServicesCradle,
+  { settings }: SensorOptions<Settings>
+): Observable<boolean> {
   const { states } = cradle;
 
-  // TODO: Add this via some kind of config.
   const pluggedIn$ = states
-    .entity$("sensor.vincents_iphone_battery_state")
-    .pipe(
-      pluck("state"),
-      map((v) => v === "Charging")
-    );
+    .state$(settings.batteryStateEntity)
+    .pipe(map((v) => v === "Charging"));
 
   const definitelySleeping$ = of(false); // inTimeRange$('00:30', '05:00')
-  const mightBeGoingToSleep$ = inTimeRange$("21:30", "04:00");
+  const mightBeGoingToSleep$ = inTimeRange$(
+    settings.bedtimeStart,
+    settings.bedtimeEnd
+  );
 
   return pluggedIn$.pipe(
     combineLatestWith(mightBeGoingToSleep$, definitelySleeping$),
@@ -1,35 +1,50 @@
-import { Observable, combineLatest } from "rxjs";
-import { startOfDay } from "date-fns";
-import { map, pluck } from "rxjs/operators";
+import convict from "convict";
+import { Observable, of } from "rxjs";
+import { distinctUntilChanged, map } from "rxjs/operators";
 import { IServicesCradle } from "../services/cradle";
 import { SensorConfig } from "../types";
+import { SensorOptions } from "./index";
 
-const DOWNSTAIRS_MOTION_SENSORS = [
-  "binary_sensor.storage_motion_sensor",
-] as const;
+type Settings = {
+  motionSensors: string[];
+};
+
+export const schema: convict.Schema<Settings> = {
+  motionSensors: {
+    doc: "The downstairs motion sensors. Not the ones in the bedroom, bathroom or hallway.",
+    format: Array,
+    default: ["binary_sensor.storage_motion_sensor"],
+  },
+};
 
 /*
  * Someone is considered awake if there is downstairs activity (not bedroom/bathroom/hallway).
- * Combines historical data (any motion today) with real-time motion detection.
+ * Looks at the motion of today, from midnight on, including the motion which happens while running.
  * Once awake, stays awake until asleep sensor triggers.
  */
-export default function awake$(cradle: IServicesCradle): Observable<boolean> {
-  const { history, states } = cradle;
-
-  // Check if there was any motion today (from midnight)
-  const hadMotionToday$ = history
-    .entity$(DOWNSTAIRS_MOTION_SENSORS[0], startOfDay(new Date()))
-    .pipe(map((v) => v.some((v) => v.state === "on")));
+export default function awake$(
+  cradle: IServicesCradle,
+  { debug, settings }: SensorOptions<Settings>
+): Observable<boolean> {
+  const { history } = cradle;
 
-  // Real-time motion detection
-  const currentMotion$ = states
-    .entity$(DOWNSTAIRS_MOTION_SENSORS[0])
-    .pipe(map((v) => v.state === "on"));
+  // combineLatest and friends never emit for no sensors at all, so say it ourselves.
+  if (!settings.motionSensors.length) {
+    debug("no motion sensors, nobody is ever awake");
+    return of(false);
+  }
 
-  // Awake if either had motion today OR currently detecting motion
-  return combineLatest([hadMotionToday$, currentMotion$]).pipe(
-    map(([hadMotion, hasMotion]) => hadMotion || hasMotion)
-  );
+  // The window moves along at midnight, live keeps adding the motion after the query.
+  return history
+    .entities$(settings.motionSensors, "today", { live: true })
+    .pipe(
+      map((series) =>
+        Object.values(series).some((states) =>
+          states.some((v) => v.state === "on")
+        )
+      ),
+      distinctUntilChanged()
+    );
 }
 
 export const config: SensorConfig = {
@@ -1,16 +1,31 @@
+import convict from "convict";
 import { Observable } from "rxjs";
 import { map } from "rxjs/operators";
 import { IServicesCradle } from "../services/cradle";
 import { SensorConfig } from "../types";
+import { SensorOptions } from "./index";
+
+type Settings = {
+  activityEntity: string;
+};
+
+export const schema: convict.Schema<Settings> = {
+  activityEntity: {
+    doc: "The entity with the current activity of the console.",
+    format: String,
+    default: "sensor.ps5_750_activity",
+  },
+};
 
 /*
  */
 export default function gaming$(
-  cradle: IServicesCradle
+  cradle: IServicesCradle,
+  { settings }: SensorOptions<Settings>
 ): Observable<string | boolean> {
-  return cradle.states.entity$("sensor.ps5_750_activity").pipe(
+  return cradle.states.state$(settings.activityEntity).pipe(
     map((v) => {
-      return v.state === "playing";
+      return v === "playing";
     })
   );
 }
@@ -3,30 +3,49 @@ import { merge, Observable } from "rxjs";
 import servicesCradle, { IServicesCradle } from "../services/cradle";
 
 import requireDir from "require-dir";
+import convict from "convict";
 
 import DEBUG from "debug";
 import { switchMap } from "rxjs/operators";
 import { SensorConfig } from "../types";
+import { SensorState } from "../services/Sensor";
 
 const services = requireDir("./");
 
 const debug = DEBUG("r-h.sensors");
 
-export type SensorOptions = {
+export type SensorOptions<C = Record<string, never>> = {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   debug: (message?: any, ...args: any[]) => void;
+  /**
+   * The sensors.<name> section of the config, validated against the schema the sensor exports.
+   */
+  settings: C;
 };
 
-type Sensor = (
+type Sensor<C> = (
   services: IServicesCradle,
-  options: SensorOptions
-) => Observable<string | boolean>;
+  options: SensorOptions<C>
+) => Observable<boolean | SensorState>;
+
+/**
+ * Every sensor has settings of its own, a list of them only knows that schema and settings match.
+ */
+type SensorModule<C = never> = {
+  default?: Sensor<C>;
+  config?: SensorConfig;
+  schema?: convict.Schema<C>;
+};
+
+function settings$<C>(name: string, sensor: SensorModule<C>) {
+  return servicesCradle.config.section$("sensors", name, sensor.schema);
+}
 
 const { hassStatus } = servicesCradle;
 
-const mapped = Object.entries(
-  services as Record<string, { default?: Sensor; config?: SensorConfig }>
-).map(([name, sensor]) => {
+const modules = services as Record<string, SensorModule>;
+
+const mapped = Object.entries(modules).map(([name, sensor]) => {
   const fn = sensor.default;
   if (!fn) {
     throw new Error(`sensor '${name} does not expose a default function.'`);
@@ -34,21 +53,48 @@ const mapped = Object.entries(
 
   debug(`found sensor '${name}'.`);
   const state$ = hassStatus.online$.pipe(
-    switchMap(() => {
-      switch (sensor.config?.type ?? "binary") {
-        case "binary":
-          return fn(servicesCradle, {
-            debug: DEBUG("r-h.sensor." + name),
-          }) as Observable<boolean>;
-        default:
-          throw new Error(`sensor '${name} is not of a supported type.'`);
-      }
+    switchMap(() => settings$(name, sensor)),
+    switchMap((settings) => {
+      return fn(servicesCradle, {
+        debug: DEBUG("r-h.sensor." + name),
+        settings,
+      });
     })
   );
 
-  return servicesCradle.binarySensor.create$(state$, name, false, {
-    name: sensor.config?.name ?? name,
-  });
+  const config = sensor.config ?? { type: "binary" };
+
+  switch (config.type) {
+    case "binary":
+      return servicesCradle.binarySensor.create$(
+        state$ as Observable<boolean>,
+        name,
+        false,
+        { name: config.name ?? name }
+      );
+    case "numeric":
+      return servicesCradle.sensor.create$(
+        state$ as Observable<SensorState>,
+        name,
+        null,
+        {
+          name: config.name ?? name,
+          unitOfMeasurement: config.unitOfMeasurement,
+          deviceClass: config.deviceClass,
+          stateClass: config.stateClass,
+          icon: config.icon,
+        }
+      );
+    case "text":
+      return servicesCradle.sensor.create$(
+        state$ as Observable<SensorState>,
+        name,
+        null,
+        { name: config.name ?? name, icon: config.icon }
+      );
+    default:
+      throw new Error(`sensor '${name} is not of a supported type.'`);
+  }
 });
 
 export default merge(...mapped);
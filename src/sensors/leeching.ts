@@ -1,7 +1,21 @@
+import convict from "convict";
 import { Observable } from "rxjs";
 import { map } from "rxjs/operators";
 import { IServicesCradle } from "../services/cradle";
 import { SensorConfig } from "../types";
+import { SensorOptions } from "./index";
+
+type Settings = {
+  speedEntity: string;
+};
+
+export const schema: convict.Schema<Settings> = {
+  speedEntity: {
+    doc: "The entity with the current download speed.",
+    format: String,
+    default: "sensor.sabnzbd_speed",
+  },
+};
 
 /*
  * Detects when I am leeching.
@@ -9,12 +23,13 @@ import { SensorConfig } from "../types";
  * So either sab or qbit is active.
  */
 export default function leeching$(
-  cradle: IServicesCradle
+  cradle: IServicesCradle,
+  { settings }: SensorOptions<Settings>
 ): Observable<string | boolean> {
   // TODO: Also add qbit up/down
-  return cradle.states.entity$("sensor.sabnzbd_speed").pipe(
+  return cradle.states.numeric$(settings.speedEntity).pipe(
     map((v) => {
-      return Number(v.state) > 0;
+      return v > 0;
     })
   );
 }
@@ -1,21 +1,36 @@
+import convict from "convict";
 import { of } from "rxjs";
 import { distinctUntilChanged, map, mergeScan } from "rxjs/operators";
 import { IServicesCradle } from "../services/cradle";
 import { SensorOptions } from "./index";
 
-// TODO: Put in config.
-const OCCUPANTS = ["person.vincent", "person.marife"];
+type Settings = {
+  occupants: string[];
+};
+
+export const schema: convict.Schema<Settings> = {
+  occupants: {
+    doc: "The person entities living in the house. Empty means every person in HA.",
+    format: Array,
+    default: [],
+  },
+};
 
 /**
  * Exposes if someone is home or not.
  */
-export default function (services: IServicesCradle, { debug }: SensorOptions) {
+export default function (
+  services: IServicesCradle,
+  { debug, settings }: SensorOptions<Settings>
+) {
   // TODO: We can extract this to a helper ...
-  const entities$ = of(...OCCUPANTS).pipe(
-    map((entity) => {
-      return services.states.entity$(entity);
-    })
-  );
+  const entities$ = settings.occupants.length
+    ? of(...settings.occupants).pipe(
+        map((entity) => {
+          return services.states.entity$(entity);
+        })
+      )
+    : services.states.entities$("person.*");
 
   const homePerPerson$ = entities$.pipe(
     mergeScan((acc: { [key: string]: string }, entity$) => {
@@ -56,17 +56,8 @@ export default class BinarySensor {
               // expire_after
               // icon
               // off_delay
-              // payload_available
-              // payload_not_available
               // payload_off
               // payload_on
-              //
-              /*
-                              TODO: add availability. which is false when we are not online.
-                              availability: {
-                              topic: `${id}/available`
-                              },
-                            */
             },
           };
         }),
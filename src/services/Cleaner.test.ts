@@ -0,0 +1,156 @@
+import { Client, createBroker as createAedes } from "aedes";
+import ms from "ms";
+import { AddressInfo, createServer, Server } from "net";
+import { setTimeout } from "timers";
+import { firstValueFrom, of, toArray } from "rxjs";
+import Cleaner from "./Cleaner";
+import Config, { IRootConfig } from "./Config";
+import { IServicesCradle } from "./cradle";
+import Discovery from "./Discovery";
+import HassStatus from "./HassStatus";
+import Mqtt from "./Mqtt";
+
+const CLAIMED = "homeassistant/switch/reactive_hass-switch-kept/config";
+const ORPHAN = "homeassistant/switch/reactive_hass-switch-renamed/config";
+const FOREIGN = "homeassistant/switch/switch-someone-else/config";
+
+type FakeBroker = {
+  /**
+   * The switch configs still on the broker.
+   */
+  retained: () => string[];
+  cleaner: Cleaner;
+  close: () => Promise<void>;
+};
+
+/**
+ * Runs an in-process broker holding the retained configs of our own and someone else's entities.
+ */
+async function createFakeBroker(
+  changes: Partial<IRootConfig> = {}
+): Promise<FakeBroker> {
+  const broker = createAedes();
+  const server: Server = createServer(broker.handle);
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+
+  const clients = new Set<Client>();
+  broker.on("client", (client) => clients.add(client));
+  broker.on("clientDisconnect", (client) => clients.delete(client));
+
+  const retained = new Set<string>();
+  broker.on("publish", (packet) => {
+    if (packet.retain && packet.topic.startsWith("homeassistant/switch/")) {
+      if (packet.payload.length) {
+        retained.add(packet.topic);
+      } else {
+        retained.delete(packet.topic);
+      }
+    }
+  });
+
+  for (const topic of [CLAIMED, ORPHAN, FOREIGN]) {
+    await new Promise<void>((resolve, reject) =>
+      broker.publish(
+        {
+          cmd: "publish",
+          topic,
+          payload: "{}",
+          qos: 0,
+          retain: true,
+          dup: false,
+        },
+        (error) => (error ? reject(error) : resolve())
+      )
+    );
+  }
+
+  const { port } = server.address() as AddressInfo;
+
+  const root: IRootConfig = {
+    host: "http://127.0.0.1",
+    token: "token",
+    idPrefix: "reactive_hass",
+    mqttDiscoveryPrefix: "homeassistant",
+    mqttUrl: `mqtt://127.0.0.1:${port}`,
+    objectId: "reactive-hass",
+    garbageCollection: true,
+    ...changes,
+  };
+
+  const config = { root$: () => of(root) } as unknown as Config;
+  const hassStatus = { online$: of(true) } as unknown as HassStatus;
+  const mqtt = new Mqtt({ config } as unknown as IServicesCradle);
+  const discovery = new Discovery({
+    config,
+    hassStatus,
+  } as unknown as IServicesCradle);
+  discovery.claim("kept", "switch");
+
+  return {
+    retained: () => [...retained].sort(),
+    cleaner: new Cleaner({
+      config,
+      mqtt,
+      discovery,
+    } as unknown as IServicesCradle),
+    close: async () => {
+      clients.forEach((client) => client.close());
+      await new Promise<void>((resolve) => broker.close(() => resolve()));
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 5000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("Cleaner", () => {
+  let broker: FakeBroker;
+
+  beforeEach(() => {
+    // The network keeps running in real time, only the startup delay is skipped.
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await broker.close();
+  });
+
+  it("should remove our unclaimed entities and keep the rest", async () => {
+    broker = await createFakeBroker();
+
+    const removed = firstValueFrom(broker.cleaner.collectGarbage$());
+    await vi.advanceTimersByTimeAsync(ms("1m"));
+
+    expect((await removed).map((entity) => entity.uniqueId)).toEqual([
+      "reactive_hass-switch-renamed",
+    ]);
+    // The broker only hands on the empty payload after acknowledging it.
+    await waitFor(() => broker.retained().length === 2);
+    expect(broker.retained()).toEqual([CLAIMED, FOREIGN].sort());
+  });
+
+  it("should not collect garbage without an idPrefix", async () => {
+    broker = await createFakeBroker({ idPrefix: "" });
+
+    const removed = firstValueFrom(
+      broker.cleaner.collectGarbage$().pipe(toArray())
+    );
+    await vi.advanceTimersByTimeAsync(ms("1m"));
+
+    expect(await removed).toEqual([]);
+    expect(broker.retained()).toEqual([CLAIMED, ORPHAN, FOREIGN].sort());
+  });
+});
@@ -0,0 +1,206 @@
+import DEBUG from "debug";
+import ms from "ms";
+import {
+  concat,
+  EMPTY,
+  merge,
+  Observable,
+  of,
+  throwError,
+  timer,
+  TimeoutError,
+} from "rxjs";
+import {
+  catchError,
+  ignoreElements,
+  map,
+  reduce,
+  switchMap,
+  take,
+  timeout,
+} from "rxjs/operators";
+import { parseDiscoveryTopic } from "../helpers/mqttTopics";
+import Config from "./Config";
+import { IServicesCradle } from "./cradle";
+import Discovery from "./Discovery";
+import Mqtt from "./Mqtt";
+
+const debug = DEBUG("r-h.cleaner");
+
+/**
+ * How long to wait for the broker to send the first retained message.
+ */
+const FIRST_MESSAGE_TIMEOUT = ms("5s");
+
+/**
+ * The broker sends all retained messages right after subscribing.
+ * Once it stays quiet for this long we assume we have seen them all.
+ */
+const QUIET_PERIOD = ms("1s");
+
+/**
+ * Some entities are only created a while after starting up.
+ * Like the ones inside an automation which waits for its switch.
+ */
+const GARBAGE_COLLECTION_DELAY = ms("1m");
+
+export type CleanerOptions = {
+  /**
+   * Only look at these discovery categories. Like switch or binary_sensor.
+   */
+  categories?: string[];
+  /**
+   * Only report what would be removed.
+   */
+  dryRun?: boolean;
+};
+
+export type RetainedEntity = {
+  category: string;
+  uniqueId: string;
+  topics: string[];
+};
+
+/**
+ * Finds everything we ever announced through Discovery and wipes it from the broker.
+ * Handy after renaming sensors or automations, HA keeps the old ones around otherwise.
+ *
+ * The availability topic is left alone. Our last will puts it back anyway.
+ */
+export default class Cleaner {
+  private config: Config;
+  private mqtt: Mqtt;
+  private discovery: Discovery;
+
+  constructor(dependencies: IServicesCradle) {
+    this.config = dependencies.config;
+    this.mqtt = dependencies.mqtt;
+    this.discovery = dependencies.discovery;
+  }
+
+  /**
+   * Collects the retained topics of every entity created by Discovery.
+   */
+  find$(options?: CleanerOptions): Observable<RetainedEntity[]> {
+    return this.config.root$().pipe(
+      take(1),
+      switchMap((config) => {
+        const filters = options?.categories?.length
+          ? options.categories.map(
+              (category) => `${config.mqttDiscoveryPrefix}/${category}/+/#`
+            )
+          : [`${config.mqttDiscoveryPrefix}/+/+/#`];
+
+        debug("looking for retained topics in %o", filters);
+
+        return merge(
+          ...filters.map((filter) => this.mqtt.subscribe$(filter))
+        ).pipe(
+          timeout({ first: FIRST_MESSAGE_TIMEOUT, each: QUIET_PERIOD }),
+          catchError((error) =>
+            error instanceof TimeoutError ? EMPTY : throwError(() => error)
+          ),
+          reduce((entities, { topic }) => {
+            const parsed = parseDiscoveryTopic(
+              topic,
+              config.mqttDiscoveryPrefix,
+              config.idPrefix
+            );
+
+            if (!parsed) {
+              return entities;
+            }
+
+            const entity = entities.get(parsed.root) ?? {
+              category: parsed.category,
+              uniqueId: parsed.uniqueId,
+              topics: [],
+            };
+
+            if (!entity.topics.includes(topic)) {
+              entity.topics.push(topic);
+            }
+
+            return entities.set(parsed.root, entity);
+          }, new Map<string, RetainedEntity>()),
+          map((entities) => [...entities.values()])
+        );
+      })
+    );
+  }
+
+  /**
+   * Deletes the retained topics by publishing an empty retained payload to them.
+   * Emits the entities which were removed, or would be removed on a dry run.
+   */
+  clear$(options?: CleanerOptions): Observable<RetainedEntity[]> {
+    return this.find$(options).pipe(
+      switchMap((entities) => {
+        if (options?.dryRun) {
+          return of(entities);
+        }
+
+        return this.remove$(entities);
+      })
+    );
+  }
+
+  /**
+   * Removes the entities under our idPrefix which are no longer claimed through Discovery.
+   * That happens when a sensor, automation or energy load gets renamed or deleted.
+   *
+   * Can be turned off with the garbageCollection config.
+   * Never runs without an idPrefix, the unique ids of other publishers could look like ours then.
+   */
+  collectGarbage$(): Observable<RetainedEntity[]> {
+    return this.config.root$().pipe(
+      take(1),
+      switchMap((config) => {
+        if (!config.garbageCollection) {
+          debug("garbage collection is disabled");
+          return EMPTY;
+        }
+
+        if (!config.idPrefix) {
+          console.log(
+            "skipping garbage collection, it needs an idPrefix to recognise our entities"
+          );
+          return EMPTY;
+        }
+
+        return timer(GARBAGE_COLLECTION_DELAY).pipe(
+          switchMap(() => this.find$()),
+          switchMap((entities) => {
+            const claimed = this.discovery.claimedUniqueIds(config);
+            const orphans = entities.filter(
+              (entity) => !claimed.has(entity.uniqueId)
+            );
+
+            orphans.forEach((entity) => {
+              console.log(
+                "removing orphaned entity",
+                entity.category,
+                entity.uniqueId
+              );
+            });
+
+            return this.remove$(orphans);
+          })
+        );
+      })
+    );
+  }
+
+  private remove$(entities: RetainedEntity[]): Observable<RetainedEntity[]> {
+    const topics = entities.flatMap((entity) => entity.topics);
+
+    const removed$ = merge(
+      ...topics.map((topic) => {
+        debug("removing %s", topic);
+        return this.mqtt.publish$(topic, "", { qos: 1, retain: true });
+      })
+    );
+
+    return concat(removed$.pipe(ignoreElements()), of(entities));
+  }
+}
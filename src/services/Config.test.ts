@@ -0,0 +1,229 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { setTimeout } from "timers";
+import DEBUG from "debug";
+import { firstValueFrom } from "rxjs";
+import Config, { ConfigSectionError } from "./Config";
+
+const schema = {
+  occupants: {
+    doc: "The person entities living in the house.",
+    format: Array,
+    default: ["person.default"],
+  },
+};
+
+function withConfigFile(contents: string) {
+  const path = join(mkdtempSync(join(tmpdir(), "r-h-config-")), "config.yaml");
+  writeFileSync(path, contents);
+  process.env.CONFIG_PATH = path;
+
+  return path;
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 5000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe("Config", () => {
+  const original = process.env.CONFIG_PATH;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = original;
+    }
+  });
+
+  it("should load the section of a sensor", async () => {
+    withConfigFile(
+      ["sensors:", "  someone_home:", "    occupants: [person.a]"].join("\n")
+    );
+
+    await expect(
+      firstValueFrom(new Config().section$("sensors", "someone_home", schema))
+    ).resolves.toEqual({ occupants: ["person.a"] });
+  });
+
+  it("should fall back to the defaults of the schema", async () => {
+    withConfigFile("host: https://hass.local");
+
+    await expect(
+      firstValueFrom(new Config().section$("sensors", "someone_home", schema))
+    ).resolves.toEqual({ occupants: ["person.default"] });
+  });
+
+  it("should reject settings which are not part of the schema", async () => {
+    withConfigFile(
+      ["automations:", "  greeter:", "    unknown: true"].join("\n")
+    );
+
+    await expect(
+      firstValueFrom(new Config().section$("automations", "greeter", {}))
+    ).rejects.toThrow(ConfigSectionError);
+  });
+
+  it("should only emit the root config again when it changed", async () => {
+    const path = withConfigFile("host: https://one.local");
+    const hosts: string[] = [];
+    const subscription = new Config()
+      .root$()
+      .subscribe((root) => hosts.push(root.host));
+
+    await waitFor(() => hosts.length === 1);
+    writeFileSync(
+      path,
+      ["host: https://one.local", "sensors:", "  gaming: {}"].join("\n")
+    );
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(hosts).toEqual(["https://one.local"]);
+
+    writeFileSync(path, "host: https://two.local");
+    await waitFor(() => hosts.length === 2);
+
+    expect(hosts).toEqual(["https://one.local", "https://two.local"]);
+    subscription.unsubscribe();
+  });
+
+  it("should keep the last good settings when an edit is invalid", async () => {
+    const path = withConfigFile(
+      ["sensors:", "  someone_home:", "    occupants: [person.a]"].join("\n")
+    );
+    const received: unknown[] = [];
+    const subscription = new Config()
+      .section$("sensors", "someone_home", schema)
+      .subscribe((settings) => received.push(settings));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await waitFor(() => received.length === 1);
+    writeFileSync(
+      path,
+      ["sensors:", "  someone_home:", "    unknown: true"].join("\n")
+    );
+    await waitFor(() => error.mock.calls.length > 0);
+    writeFileSync(
+      path,
+      ["sensors:", "  someone_home:", "    occupants: [person.b]"].join("\n")
+    );
+    await waitFor(() => received.length === 2);
+
+    expect(received).toEqual([
+      { occupants: ["person.a"] },
+      { occupants: ["person.b"] },
+    ]);
+    error.mockRestore();
+    subscription.unsubscribe();
+  });
+
+  it("should fill in the defaults of every integration", () => {
+    withConfigFile(
+      [
+        "teslas:",
+        "  - name: model3",
+        "    vin: VIN123",
+        "homeWizardP1s:",
+        "  - name: house",
+        "    host: 10.0.0.2",
+      ].join("\n")
+    );
+
+    expect(new Config().integrations()).toEqual({
+      teslas: [
+        {
+          name: "model3",
+          vin: "VIN123",
+          proxyUrl: "http://localhost:8080",
+          teslamateCarId: 1,
+          sshHost: "",
+          dockerContainer: "tesla-ble-http-proxy",
+        },
+      ],
+      homeWizardP1s: [{ name: "house", host: "10.0.0.2" }],
+    });
+  });
+
+  it("should read integrations as JSON from the environment", () => {
+    withConfigFile("host: https://hass.local");
+    process.env.HASS_HOMEWIZARD_P1S = JSON.stringify([
+      { name: "garage", host: "10.0.0.3" },
+    ]);
+
+    try {
+      expect(new Config().integrations().homeWizardP1s).toEqual([
+        { name: "garage", host: "10.0.0.3" },
+      ]);
+    } finally {
+      delete process.env.HASS_HOMEWIZARD_P1S;
+    }
+  });
+
+  it("should reject an integration without its required settings", () => {
+    withConfigFile(["teslas:", "  - name: model3"].join("\n"));
+
+    expect(() => new Config().integrations()).toThrow(/vin/);
+  });
+
+  it("should resolve !secret from the secrets.yaml next to the config", async () => {
+    const path = withConfigFile("token: !secret hass_token");
+    writeFileSync(join(dirname(path), "secrets.yaml"), "hass_token: abc");
+
+    const root = await firstValueFrom(new Config().root$());
+
+    expect(root.token).toBe("abc");
+  });
+
+  it("should fail on an unknown secret", async () => {
+    withConfigFile("token: !secret missing");
+
+    await expect(firstValueFrom(new Config().root$())).rejects.toThrow(
+      /secret missing not found/
+    );
+  });
+
+  it("should mask the token and mqttPassword in the logged root config", async () => {
+    withConfigFile(
+      ["token: secret-token", "mqttPassword: secret-password"].join("\n")
+    );
+    const namespaces = DEBUG.disable();
+    DEBUG.enable("r-h.config");
+    const log = vi.spyOn(DEBUG, "log").mockImplementation(() => {});
+
+    try {
+      await firstValueFrom(new Config().root$());
+
+      const root = log.mock.calls.find((args) =>
+        String(args[0]).includes("root:")
+      );
+      expect(root?.[1]).toMatchObject({
+        token: "[Sensitive]",
+        mqttPassword: "[Sensitive]",
+      });
+      expect(JSON.stringify(log.mock.calls)).not.toMatch(/secret-/);
+    } finally {
+      log.mockRestore();
+      DEBUG.enable(namespaces);
+    }
+  });
+
+  it("should read env variables from a file with the _FILE suffix", async () => {
+    const path = withConfigFile("token: from-config");
+    const tokenPath = join(dirname(path), "token");
+    writeFileSync(tokenPath, "from-file\n");
+    process.env.HASS_TOKEN_FILE = tokenPath;
+
+    try {
+      const root = await firstValueFrom(new Config().root$());
+      expect(root.token).toBe("from-file");
+    } finally {
+      delete process.env.HASS_TOKEN_FILE;
+    }
+  });
+});
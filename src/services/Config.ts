@@ -1,18 +1,136 @@
-import { from, Observable } from "rxjs";
+import { existsSync, readFileSync, unwatchFile, watchFile } from "fs";
+import { dirname, join } from "path";
+import ms from "ms";
+import {
+  defer,
+  EMPTY,
+  merge,
+  Observable,
+  of,
+  OperatorFunction,
+  throwError,
+} from "rxjs";
 
 import convict from "convict";
 
 import yaml from "js-yaml";
 
 import { url } from "convict-format-with-validator";
-import { shareReplay } from "rxjs/operators";
+import {
+  distinctUntilChanged,
+  map,
+  mergeMap,
+  shareReplay,
+  startWith,
+  tap,
+} from "rxjs/operators";
+import { isDeepStrictEqual } from "util";
 import DEBUG from "debug";
 
 const debug = DEBUG("r-h.config");
 
-convict.addParser({ extension: ["yml", "yaml"], parse: yaml.load });
 convict.addFormat(url);
 
+function required(value: unknown) {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new Error("must be set");
+  }
+}
+
+const TESLA_SCHEMA = {
+  name: {
+    default: "",
+    doc: "A short name for the car. Ends up in the IDs of everything related to it.",
+    format: required,
+  },
+  proxyUrl: {
+    default: "http://localhost:8080",
+    doc: "The URL of the TeslaBleHttpProxy. https://github.com/wimaha/TeslaBleHttpProxy",
+    format: "url",
+  },
+  vin: {
+    default: "",
+    doc: "The VIN of the car.",
+    format: required,
+  },
+  teslamateCarId: {
+    default: 1,
+    doc: "The id of the car in Teslamate.",
+    format: "nat",
+  },
+  sshHost: {
+    default: "",
+    doc: "The SSH host running the proxy in docker. Used to restart the proxy when it hangs. Leave empty to never restart it.",
+    format: String,
+  },
+  dockerContainer: {
+    default: "tesla-ble-http-proxy",
+    doc: "The docker container of the proxy on the SSH host.",
+    format: String,
+  },
+};
+
+const HOMEWIZARD_P1_SCHEMA = {
+  name: {
+    default: "",
+    doc: "A short name for the meter.",
+    format: required,
+  },
+  host: {
+    default: "",
+    doc: "The IP address or hostname of the P1 meter.",
+    format: required,
+  },
+};
+
+export type TeslaConfig = {
+  name: string;
+  proxyUrl: string;
+  vin: string;
+  teslamateCarId: number;
+  sshHost: string;
+  dockerContainer: string;
+};
+
+export type HomeWizardP1Config = {
+  name: string;
+  host: string;
+};
+
+export interface IIntegrationsConfig {
+  teslas: TeslaConfig[];
+  homeWizardP1s: HomeWizardP1Config[];
+}
+
+function parseListItem<T>(schema: convict.Schema<T>, item: unknown): T {
+  const config = convict(schema);
+  config.load(item);
+  config.validate({ allowed: "strict" });
+
+  return config.getProperties();
+}
+
+/**
+ * A list where every item is validated against its own schema.
+ * Can be given as JSON through an environment variable.
+ */
+function listFormat<T>(name: string, schema: convict.Schema<T>) {
+  return {
+    name,
+    validate: (items: unknown) => {
+      if (!Array.isArray(items)) {
+        throw new Error("must be a list");
+      }
+
+      items.forEach((item) => parseListItem(schema, item));
+    },
+    coerce: (value: string) => JSON.parse(value),
+  };
+}
+
+convict.addFormat(listFormat("teslas", TESLA_SCHEMA));
+convict.addFormat(listFormat("homewizard-p1s", HOMEWIZARD_P1_SCHEMA));
+
 const CONVICT_SCHEMA = {
   host: {
     default: "https://homeassistant.local",
@@ -25,6 +143,7 @@ const CONVICT_SCHEMA = {
     doc: "A long-lived access token. Create one on your account profile. https://www.home-assistant.io/docs/authentication/#your-account-profile",
     env: "HASS_TOKEN",
     format: String,
+    sensitive: true,
   },
   mqttDiscoveryPrefix: {
     default: "homeassistant",
@@ -44,42 +163,365 @@ const CONVICT_SCHEMA = {
     env: "HASS_MQTT_URL",
     format: String,
   },
+  mqttUsername: {
+    default: "",
+    doc: "The username for the MQTT broker. Leave empty when the broker does not need one.",
+    env: "HASS_MQTT_USERNAME",
+    format: String,
+  },
+  mqttPassword: {
+    default: "",
+    doc: "The password for the MQTT broker.",
+    env: "HASS_MQTT_PASSWORD",
+    format: String,
+    sensitive: true,
+  },
+  mqttCa: {
+    default: "",
+    doc: "Path to the CA certificate to trust when the broker uses TLS with a custom CA.",
+    env: "HASS_MQTT_CA",
+    format: String,
+  },
+  mqttCert: {
+    default: "",
+    doc: "Path to the client certificate when the broker wants one.",
+    env: "HASS_MQTT_CERT",
+    format: String,
+  },
+  mqttKey: {
+    default: "",
+    doc: "Path to the private key of the client certificate.",
+    env: "HASS_MQTT_KEY",
+    format: String,
+  },
+  mqttClientId: {
+    default: "",
+    doc: "A fixed client id. A random one is used when empty.",
+    env: "HASS_MQTT_CLIENT_ID",
+    format: String,
+  },
+  mqttClean: {
+    default: true,
+    doc: "Start with a clean session. Turn it off together with a fixed client id so the broker keeps QoS 1 messages for us during short disconnects.",
+    env: "HASS_MQTT_CLEAN",
+    format: Boolean,
+  },
+  mqttKeepalive: {
+    default: 60,
+    doc: "The keepalive interval in seconds.",
+    env: "HASS_MQTT_KEEPALIVE",
+    format: "nat",
+  },
+  mqttProtocolVersion: {
+    default: 4,
+    doc: "The MQTT protocol version. 3 for MQTT 3.1, 4 for MQTT 3.1.1 and 5 for MQTT 5.",
+    env: "HASS_MQTT_PROTOCOL_VERSION",
+    format: [3, 4, 5],
+  },
+  garbageCollection: {
+    default: true,
+    doc: "Remove entities from MQTT on startup which no longer belong to a sensor, automation or energy load.",
+    env: "HASS_GARBAGE_COLLECTION",
+    format: Boolean,
+  },
+  automations: {
+    default: {},
+    doc: "Settings per automation, keyed by the name of the automation. Every automation validates its own section.",
+    format: Object,
+  },
+  sensors: {
+    default: {},
+    doc: "Settings per sensor, keyed by the name of the sensor. Every sensor validates its own section.",
+    format: Object,
+  },
+  teslas: {
+    default: [],
+    doc: "The Tesla cars to charge with excess solar power.",
+    env: "HASS_TESLAS",
+    format: "teslas",
+  },
+  homeWizardP1s: {
+    default: [],
+    doc: "The HomeWizard P1 meters measuring the power of the house.",
+    env: "HASS_HOMEWIZARD_P1S",
+    format: "homewizard-p1s",
+  },
 };
 
+export type ConfigSection = "automations" | "sensors";
+
+export class ConfigSectionError extends Error {
+  constructor(
+    public section: ConfigSection,
+    public name: string,
+    cause: unknown
+  ) {
+    super(
+      `invalid config for ${section}.${name}: ${cause instanceof Error ? cause.message : cause}`
+    );
+    this.name = "ConfigSectionError";
+  }
+}
+
 export interface IRootConfig {
   host: string;
   token: string;
   idPrefix?: string;
   mqttDiscoveryPrefix: string;
   mqttUrl: string;
+  mqttUsername?: string;
+  mqttPassword?: string;
+  mqttCa?: string;
+  mqttCert?: string;
+  mqttKey?: string;
+  mqttClientId?: string;
+  mqttClean?: boolean;
+  mqttKeepalive?: number;
+  mqttProtocolVersion?: 3 | 4 | 5;
   objectId: string;
+  garbageCollection?: boolean;
+}
+
+/**
+ * How often to check the config file for changes.
+ */
+const WATCH_INTERVAL = ms("1s");
+
+// Only load config file if it exists or CONFIG_PATH is explicitly set
+const configPath = () => process.env.CONFIG_PATH || "./config.yaml";
+
+/**
+ * Every env variable of the schema can also point to a file with a _FILE suffix.
+ * Like HASS_TOKEN_FILE=/run/secrets/hass_token. Handy for Docker and Kubernetes secrets.
+ */
+function withFileEnv(env: typeof process.env): typeof process.env {
+  const resolved = { ...env };
+
+  Object.values(CONVICT_SCHEMA).forEach((property) => {
+    if (!("env" in property)) {
+      return;
+    }
+
+    const path = env[`${property.env}_FILE`];
+    if (path) {
+      resolved[property.env] = readFileSync(path, "utf8").trim();
+    }
+  });
+
+  return resolved;
 }
 
+function loadSecrets(secretsPath: string): Record<string, unknown> {
+  if (!existsSync(secretsPath)) {
+    return {};
+  }
+
+  return (yaml.load(readFileSync(secretsPath, "utf8")) ?? {}) as Record<
+    string,
+    unknown
+  >;
+}
+
+/**
+ * Supports the !secret tag of HA. It looks up the value in the secrets.yaml next to the config.
+ * https://www.home-assistant.io/docs/configuration/secrets/
+ */
+const secretsPath = (configPath: string) =>
+  join(dirname(configPath), "secrets.yaml");
+
+function secretsSchema(configPath: string): yaml.Schema {
+  const path = secretsPath(configPath);
+  let secrets: Record<string, unknown> | undefined;
+
+  return yaml.DEFAULT_SCHEMA.extend(
+    new yaml.Type("!secret", {
+      kind: "scalar",
+      construct: (name: string) => {
+        secrets ??= loadSecrets(path);
+
+        if (!(name in secrets)) {
+          throw new Error(`secret ${name} not found in ${path}`);
+        }
+
+        return secrets[name];
+      },
+    })
+  );
+}
+
+/**
+ * Masks the values which the schema marks as sensitive. Safe to log afterwards.
+ */
+function redact(schema: object, value: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => {
+      const property = (schema as Record<string, { sensitive?: boolean }>)[key];
+
+      return [key, property?.sensitive && v ? "[Sensitive]" : v];
+    })
+  );
+}
+
+function loadConfig(configPath: string) {
+  const config = convict(CONVICT_SCHEMA, { env: withFileEnv(process.env) });
+
+  if (existsSync(configPath)) {
+    const document = yaml.load(readFileSync(configPath, "utf8"), {
+      schema: secretsSchema(configPath),
+    });
+    config.load(document ?? {});
+    debug(`Loaded config from ${configPath}`);
+  } else {
+    debug(
+      `No config file found at ${configPath}, using environment variables and defaults`
+    );
+  }
+
+  config.validate();
+
+  return config;
+}
+
+type LoadedConfig = ReturnType<typeof loadConfig>;
+
+/**
+ * Nexts whenever the file changes. Also when it gets created or removed.
+ */
+function watchFile$(path: string): Observable<void> {
+  return new Observable((subscriber) => {
+    const listener = () => subscriber.next();
+    watchFile(path, { interval: WATCH_INTERVAL }, listener);
+
+    return () => unwatchFile(path, listener);
+  });
+}
+
+/**
+ * Parses every value but skips the ones which fail after a first success.
+ * So an invalid edit gets logged while the last good value keeps running.
+ * Only the first value is allowed to fail loudly.
+ */
+function keepLastValid<S, T>(parse: (value: S) => T): OperatorFunction<S, T> {
+  return (source$) =>
+    defer(() => {
+      let valid = false;
+
+      return source$.pipe(
+        mergeMap((value) => {
+          try {
+            const parsed = parse(value);
+            valid = true;
+            return of(parsed);
+          } catch (error) {
+            if (!valid) {
+              return throwError(() => error);
+            }
+
+            console.error(
+              "ignoring invalid config change:",
+              error instanceof Error ? error.message : error
+            );
+            return EMPTY;
+          }
+        })
+      );
+    });
+}
+
+/**
+ * Watches the config file and emits again whenever it changes.
+ * Every consumer is built with switchMap on top of it, so a change rebuilds whatever depends on it.
+ */
 export default class Config {
+  private config$: Observable<LoadedConfig>;
+
+  constructor() {
+    this.config$ = defer(() => {
+      const path = configPath();
+
+      return merge(watchFile$(path), watchFile$(secretsPath(path))).pipe(
+        startWith(undefined),
+        keepLastValid(() => loadConfig(path))
+      );
+    }).pipe(shareReplay({ bufferSize: 1, refCount: true }));
+  }
+
+  /**
+   * Only nexts when the root config itself changed.
+   * Editing the settings of an automation does not reconnect everything.
+   */
   root$(): Observable<IRootConfig> {
-    const config = convict(CONVICT_SCHEMA);
-
-    // Only load config file if it exists or CONFIG_PATH is explicitly set
-    const configPath = process.env.CONFIG_PATH || "./config.yaml";
-    try {
-      config.loadFile(configPath);
-      debug(`Loaded config from ${configPath}`);
-    } catch (error) {
-      debug(`No config file found at ${configPath}, using environment variables and defaults`);
-    }
+    return this.config$.pipe(
+      map(
+        (config): IRootConfig => ({
+          host: config.get("host"),
+          token: config.get("token"),
+          idPrefix: config.get("idPrefix"),
+          mqttDiscoveryPrefix: config.get("mqttDiscoveryPrefix"),
+          mqttUrl: config.get("mqttUrl"),
+          mqttUsername: config.get("mqttUsername"),
+          mqttPassword: config.get("mqttPassword"),
+          mqttCa: config.get("mqttCa"),
+          mqttCert: config.get("mqttCert"),
+          mqttKey: config.get("mqttKey"),
+          mqttClientId: config.get("mqttClientId"),
+          mqttClean: config.get("mqttClean"),
+          mqttKeepalive: config.get("mqttKeepalive"),
+          mqttProtocolVersion: config.get("mqttProtocolVersion") as 3 | 4 | 5,
+          garbageCollection: config.get("garbageCollection"),
+          objectId: "reactive-hass",
+        })
+      ),
+      distinctUntilChanged((a, b) => isDeepStrictEqual(a, b)),
+      tap((root) => debug("root:", redact(CONVICT_SCHEMA, root)))
+    );
+  }
 
-    config.validate();
+  /**
+   * The integrations we talk to directly, like cars and energy meters.
+   * The cradle registers a service per configured instance, so these are only read on startup.
+   */
+  integrations(): IIntegrationsConfig {
+    const config = loadConfig(configPath());
 
-    const root: IRootConfig = {
-      host: config.get("host"),
-      token: config.get("token"),
-      idPrefix: config.get("idPrefix"),
-      mqttDiscoveryPrefix: config.get("mqttDiscoveryPrefix"),
-      mqttUrl: config.get("mqttUrl"),
-      objectId: "reactive-hass",
+    return {
+      teslas: (config.get("teslas") as unknown[]).map((item) =>
+        parseListItem<TeslaConfig>(TESLA_SCHEMA, item)
+      ),
+      homeWizardP1s: (config.get("homeWizardP1s") as unknown[]).map((item) =>
+        parseListItem<HomeWizardP1Config>(HOMEWIZARD_P1_SCHEMA, item)
+      ),
     };
-    debug("root:", root);
+  }
+
+  /**
+   * The settings of a single automation or sensor, validated against the schema it exports.
+   * Missing settings get the defaults of the schema, without a schema there are no settings.
+   * Only nexts when those settings changed, so only that automation or sensor restarts.
+   */
+  section$<T>(
+    section: ConfigSection,
+    name: string,
+    schema?: convict.Schema<T>
+  ): Observable<T> {
+    return this.config$.pipe(
+      map((config) => config.get(section) as Record<string, unknown>),
+      keepLastValid((sections) => {
+        const config = convict(schema ?? ({} as convict.Schema<T>));
+
+        try {
+          config.load(sections[name] ?? {});
+          config.validate({ allowed: "strict" });
+        } catch (error) {
+          throw new ConfigSectionError(section, name, error);
+        }
 
-    return from([root]).pipe(shareReplay(1));
+        return config.getProperties();
+      }),
+      distinctUntilChanged((a, b) => isDeepStrictEqual(a, b)),
+      tap((settings) =>
+        debug(`${section}.${name}:`, redact(schema ?? {}, settings as object))
+      )
+    );
   }
 }
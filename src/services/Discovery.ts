@@ -1,9 +1,10 @@
-import Config from "./Config";
+import Config, { IRootConfig } from "./Config";
 import { IServicesCradle } from "./cradle";
 import { Observable } from "rxjs";
 import { map, switchMapTo, tap } from "rxjs/operators";
 import HassStatus from "./HassStatus";
 import DEBUG from "debug";
+import { availabilityTopic } from "./Mqtt";
 
 const debug = DEBUG("r-h.discovery");
 
@@ -16,6 +17,7 @@ type DiscoveryPayload = {
   unique_id: string;
   name: string;
   state_topic: string;
+  availability_topic: string;
   object_id: string;
   device: DiscoveryDevice;
 };
@@ -28,6 +30,14 @@ type DiscoveryState = {
   payload: DiscoveryPayload;
 };
 
+export function discoveryUniqueId(
+  config: IRootConfig,
+  categoryName: string,
+  id: string
+): string {
+  return [config.idPrefix, categoryName, id].filter((v) => v).join("-");
+}
+
 /**
  * Discovery helps us build discovery services.
  * The problem with home assistant discovery is that it will not see your discovery entities after a restart of home assistant.
@@ -36,12 +46,33 @@ type DiscoveryState = {
 export default class Discovery {
   private config: Config;
   private hassStatus: HassStatus;
+  private claimed = new Map<string, { categoryName: string; id: string }>();
 
   constructor(dependencies: IServicesCradle) {
     this.config = dependencies.config;
     this.hassStatus = dependencies.hassStatus;
   }
 
+  /**
+   * Marks an entity as ours before it is announced.
+   * Entities which are only created later on, like inside an automation, should be claimed up front.
+   * Otherwise the garbage collection sees them as orphans.
+   */
+  claim(id: string, categoryName: string) {
+    this.claimed.set(`${categoryName}/${id}`, { categoryName, id });
+  }
+
+  /**
+   * The unique ids of every entity which was claimed or created so far.
+   */
+  claimedUniqueIds(config: IRootConfig): Set<string> {
+    return new Set(
+      [...this.claimed.values()].map(({ categoryName, id }) =>
+        discoveryUniqueId(config, categoryName, id)
+      )
+    );
+  }
+
   /**
    * TODO: Would be nice if we could receive the config and automatically emit it when needed.
    **/
@@ -50,11 +81,11 @@ export default class Discovery {
     categoryName: string,
     options?: { name?: string }
   ): Observable<DiscoveryState> {
+    this.claim(id, categoryName);
+
     const prefix$ = this.config.root$().pipe(
       map((config) => {
-        const uniqueId = [config.idPrefix, categoryName, id]
-          .filter((v) => v)
-          .join("-");
+        const uniqueId = discoveryUniqueId(config, categoryName, id);
 
         const objectId = `${config.objectId}_${id}`;
         const root = `${config.mqttDiscoveryPrefix}/${categoryName}/${uniqueId}`;
@@ -72,6 +103,7 @@ export default class Discovery {
             object_id: objectId,
             unique_id: uniqueId,
             state_topic: `${root}/state`,
+            availability_topic: availabilityTopic(config),
             name: options?.name ?? id,
             device: {
               model: "Reactive HASS",
@@ -74,6 +74,7 @@ export default class DiscoverySwitch {
           config.payload.command_topic
         );
         return this.mqtt.subscribe$(config.payload.command_topic).pipe(
+          map((msg) => msg.payload),
           tap((v) => {
             debug("command for %s -> %j", id, v);
           })
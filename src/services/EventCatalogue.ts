@@ -0,0 +1,87 @@
+/* eslint @typescript-eslint/no-explicit-any:0 */
+import { HassEventBase, StateChangedEvent } from "../types";
+
+/**
+ * The data of the events we listen to or fire ourselves.
+ * https://www.home-assistant.io/docs/configuration/events/
+ *
+ * Custom events can be added through module augmentation:
+ *
+ *   declare module "../services/EventCatalogue" {
+ *     interface EventCatalogue {
+ *       reactive_hass_bedtime: { room: string };
+ *     }
+ *   }
+ *
+ * Anything which is not in here is untyped.
+ */
+
+export type StateChangedEventData = StateChangedEvent["data"];
+
+export type CallServiceEventData = {
+  domain: string;
+  service: string;
+  service_data: Record<string, any>;
+};
+
+export type AutomationTriggeredEventData = {
+  name: string;
+  entity_id: string;
+  /**
+   * What triggered it. Like "state of binary_sensor.motion".
+   */
+  source?: string;
+};
+
+export type MobileAppNotificationActionEventData = {
+  /**
+   * The action identifier given when sending the notification.
+   */
+  action: string;
+  /**
+   * Only for actions with behavior: textInput.
+   */
+  reply_text?: string;
+  [key: string]: unknown;
+};
+
+export type ZhaEventData = {
+  device_ieee: string;
+  device_id: string;
+  unique_id: string;
+  endpoint_id: number;
+  cluster_id: number;
+  /**
+   * Like "on", "off" or "remote_button_short_press".
+   */
+  command: string;
+  args: unknown;
+  params: Record<string, unknown>;
+};
+
+export interface EventCatalogue {
+  state_changed: StateChangedEventData;
+  call_service: CallServiceEventData;
+  automation_triggered: AutomationTriggeredEventData;
+  mobile_app_notification_action: MobileAppNotificationActionEventData;
+  zha_event: ZhaEventData;
+}
+
+type Untyped = {
+  [key: string]: any;
+};
+
+/**
+ * The data of an event type. Untyped for events we know nothing about.
+ */
+export type EventData<E extends string> = E extends keyof EventCatalogue
+  ? EventCatalogue[E]
+  : Untyped;
+
+/**
+ * A whole event as HA sends it, with its context and time_fired.
+ */
+export type TypedEvent<E extends string> = HassEventBase & {
+  event_type: E;
+  data: EventData<E>;
+};
@@ -0,0 +1,146 @@
+import { firstValueFrom, Observable, of, Subject } from "rxjs";
+import { IServicesCradle } from "./cradle";
+import Events from "./Events";
+
+function createFakeSocket(reply: Record<string, unknown> = {}) {
+  const events$ = new Subject<unknown>();
+  const subscriptions: Record<string, unknown>[] = [];
+  const invoked: Record<string, unknown>[] = [];
+  let active = 0;
+
+  const socket = {
+    invoke$(message: Record<string, unknown>) {
+      invoked.push(message);
+      return of({ id: 1, type: "result", ...reply });
+    },
+    subscribe$(message: Record<string, unknown>) {
+      return new Observable((subscriber) => {
+        subscriptions.push(message);
+        active += 1;
+        const subscription = events$.subscribe(subscriber);
+
+        return () => {
+          active -= 1;
+          subscription.unsubscribe();
+        };
+      });
+    },
+  };
+
+  return {
+    events$,
+    subscriptions,
+    invoked,
+    active: () => active,
+    cradle: { socket } as unknown as IServicesCradle,
+  };
+}
+
+describe("Events", () => {
+  it("should share one HA subscription between all consumers of an event type", () => {
+    const fake = createFakeSocket();
+    const events = new Events(fake.cradle);
+
+    const first: unknown[] = [];
+    const second: unknown[] = [];
+    const a = events.stateChanged$.subscribe((v) => first.push(v));
+    const b = events.stateChanged$.subscribe((v) => second.push(v));
+
+    fake.events$.next({ event: { data: { entity_id: "light.test" } } });
+
+    expect(fake.subscriptions).toEqual([
+      { type: "subscribe_events", event_type: "state_changed" },
+    ]);
+    expect(first).toEqual([{ entity_id: "light.test" }]);
+    expect(second).toEqual([{ entity_id: "light.test" }]);
+
+    a.unsubscribe();
+    b.unsubscribe();
+  });
+
+  it("should keep separate subscriptions per event type", () => {
+    const fake = createFakeSocket();
+    const events = new Events(fake.cradle);
+
+    const a = events.stateChanged$.subscribe();
+    const b = events.type$("call_service").subscribe();
+    const c = events.all$.subscribe();
+
+    expect(fake.subscriptions).toEqual([
+      { type: "subscribe_events", event_type: "state_changed" },
+      { type: "subscribe_events", event_type: "call_service" },
+      { type: "subscribe_events" },
+    ]);
+
+    a.unsubscribe();
+    b.unsubscribe();
+    c.unsubscribe();
+  });
+
+  it("should cancel the HA subscription when the last consumer leaves", () => {
+    const fake = createFakeSocket();
+    const events = new Events(fake.cradle);
+
+    const a = events.stateChanged$.subscribe();
+    const b = events.stateChanged$.subscribe();
+
+    a.unsubscribe();
+    expect(fake.active()).toBe(1);
+
+    b.unsubscribe();
+    expect(fake.active()).toBe(0);
+
+    // Subscribing again sets up a fresh subscription.
+    const c = events.stateChanged$.subscribe();
+    expect(fake.subscriptions).toHaveLength(2);
+    c.unsubscribe();
+  });
+
+  it("should emit whole events with their context", () => {
+    const fake = createFakeSocket();
+    const events = new Events(fake.cradle);
+
+    const event = {
+      event_type: "mobile_app_notification_action",
+      data: { action: "OPEN_GARAGE" },
+      origin: "REMOTE",
+      time_fired: "2026-10-19T07:00:00.000000+00:00",
+      context: { id: "ctx", user_id: null, parent_id: null },
+    };
+
+    const received: unknown[] = [];
+    const actions: string[] = [];
+    const a = events
+      .event$("mobile_app_notification_action")
+      .subscribe((v) => received.push(v));
+    const b = events
+      .type$("mobile_app_notification_action")
+      .subscribe((v) => actions.push(v.action));
+
+    fake.events$.next({ event });
+
+    expect(received).toEqual([event]);
+    expect(actions).toEqual(["OPEN_GARAGE"]);
+    expect(fake.subscriptions).toHaveLength(1);
+
+    a.unsubscribe();
+    b.unsubscribe();
+  });
+
+  it("should fire events through fire_event", async () => {
+    const context = { id: "ctx", user_id: null, parent_id: null };
+    const fake = createFakeSocket({ success: true, result: { context } });
+    const events = new Events(fake.cradle);
+
+    await expect(
+      firstValueFrom(events.fire$("reactive_hass_bedtime", { room: "attic" }))
+    ).resolves.toEqual(context);
+    expect(fake.invoked).toEqual([
+      {
+        type: "fire_event",
+        event_type: "reactive_hass_bedtime",
+        event_data: { room: "attic" },
+      },
+    ]);
+  });
+});
@@ -1,49 +1,101 @@
-import { Observable } from "rxjs";
+import { Observable, of, throwError } from "rxjs";
 import { IServicesCradle } from "./cradle";
 import DEBUG from "debug";
-import { StateChangedEvent } from "../types";
-import Socket from "./Socket";
-import { map } from "rxjs/operators";
+import { Context, HassEvent } from "../types";
+import Socket, { SocketResultError } from "./Socket";
+import { map, share, switchMap, tap } from "rxjs/operators";
+import { EventData, TypedEvent } from "./EventCatalogue";
 
 const debug = DEBUG("r-h.events");
 
-type StateChangedEventData = StateChangedEvent["data"];
-
 type CreateEventStreamOptions = {
   type: string;
   event_type?: string;
 };
 
+const ALL_EVENTS = "*";
+
+/**
+ * Every event type has exactly one subscription at HA.
+ * It is shared between all consumers and cancelled once the last one leaves.
+ */
 export default class Events {
   socket: Socket;
 
+  private streams = new Map<string, Observable<HassEvent>>();
+
   constructor(dependencies: IServicesCradle) {
     this.socket = dependencies.socket;
   }
 
   private createEventStream$(
     msg: CreateEventStreamOptions
-  ): Observable<StateChangedEventData> {
+  ): Observable<HassEvent> {
+    const key = msg.event_type ?? ALL_EVENTS;
+    const existing$ = this.streams.get(key);
+    if (existing$) {
+      return existing$;
+    }
+
     debug("creating events stream for %j", msg);
-    return this.socket.subscribe$(msg).pipe(
+    const stream$ = this.socket.subscribe$(msg).pipe(
       map((item) => {
-        return item.event.data;
-      })
+        return item.event;
+      }),
+      share()
     );
+
+    this.streams.set(key, stream$);
+
+    return stream$;
   }
 
-  get all$(): Observable<StateChangedEventData> {
-    return this.createEventStream$({ type: "subscribe_events" });
+  get all$(): Observable<HassEvent["data"]> {
+    return this.createEventStream$({ type: "subscribe_events" }).pipe(
+      map((event) => event.data)
+    );
   }
 
-  type$(eventType: string): Observable<StateChangedEventData> {
+  /**
+   * The whole events of a type, including their context and time_fired.
+   */
+  event$<E extends string>(eventType: E): Observable<TypedEvent<E>> {
     return this.createEventStream$({
       type: "subscribe_events",
       event_type: eventType,
-    });
+    }) as Observable<TypedEvent<E>>;
+  }
+
+  /**
+   * Only the data of the events of a type.
+   */
+  type$<E extends string>(eventType: E): Observable<EventData<E>> {
+    return this.event$(eventType).pipe(map((event) => event.data));
   }
 
-  get stateChanged$(): Observable<StateChangedEventData> {
+  get stateChanged$(): Observable<EventData<"state_changed">> {
     return this.type$("state_changed");
   }
+
+  /**
+   * Fires an event on the event bus of HA.
+   * Emits the context HA gave the event, handy to recognise our own events when listening to them.
+   */
+  fire$<E extends string>(
+    eventType: E,
+    data?: EventData<E>
+  ): Observable<Context> {
+    return this.socket
+      .invoke$({ type: "fire_event", event_type: eventType, event_data: data })
+      .pipe(
+        tap(() => debug("fired %s with %j", eventType, data)),
+        switchMap((v) =>
+          v.success
+            ? of(v.result.context as Context)
+            : throwError(
+                () => new SocketResultError({ type: "fire_event" }, v.error)
+              )
+        )
+      );
+  }
 }
@@ -14,6 +14,7 @@ export default class HassStatus {
     this.mqtt = dependencies.mqtt;
 
     this.status$ = this.mqtt.subscribe$("hass/status").pipe(
+      map((msg) => msg.payload),
       tap((v) => {
         debug("status %s", v);
       }),
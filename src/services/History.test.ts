@@ -0,0 +1,160 @@
+import ms from "ms";
+import { isObservable, Observable, of, Subject } from "rxjs";
+import Events from "./Events";
+import History, { HistorySeries, HistoryState } from "./History";
+import Rest from "./Rest";
+
+function createHistory(
+  result: HistoryState[][] | Observable<HistoryState[][]> = []
+) {
+  const requests: { path: unknown[]; query: string }[] = [];
+  const stateChanged$ = new Subject<unknown>();
+
+  const rest = {
+    get$(path: unknown[], { queryParams }: { queryParams: URLSearchParams }) {
+      requests.push({ path, query: queryParams.toString() });
+      return isObservable(result) ? result : of(result);
+    },
+  } as unknown as Rest;
+
+  const history = new History({
+    rest,
+    events: { stateChanged$ } as unknown as Events,
+  });
+
+  return { history, requests, stateChanged$ };
+}
+
+const state = (entityId: string, value: string, lastChanged: string) => ({
+  entity_id: entityId,
+  state: value,
+  last_changed: lastChanged,
+});
+
+describe("History", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should query several entities at once and key them by entity id", () => {
+    const { history, requests } = createHistory([
+      [state("binary_sensor.hallway", "off", "2026-10-19T06:00:00Z")],
+      [state("binary_sensor.kitchen", "on", "2026-10-19T06:00:00Z")],
+    ]);
+    const since = new Date("2026-10-19T06:00:00Z");
+    const results: HistorySeries[] = [];
+
+    history
+      .entities$(
+        [
+          "binary_sensor.kitchen",
+          "binary_sensor.hallway",
+          "binary_sensor.attic",
+        ],
+        since,
+        {
+          end: new Date("2026-10-19T08:00:00Z"),
+          minimalResponse: true,
+          significantChangesOnly: false,
+        }
+      )
+      .subscribe((v) => results.push(v));
+
+    expect(requests).toEqual([
+      {
+        path: ["history", "period", since],
+        query:
+          "filter_entity_id=binary_sensor.kitchen%2Cbinary_sensor.hallway%2Cbinary_sensor.attic&end_time=2026-10-19T08%3A00%3A00.000Z&minimal_response=&significant_changes_only=0",
+      },
+    ]);
+    expect(results).toEqual([
+      {
+        "binary_sensor.kitchen": [
+          state("binary_sensor.kitchen", "on", "2026-10-19T06:00:00Z"),
+        ],
+        "binary_sensor.hallway": [
+          state("binary_sensor.hallway", "off", "2026-10-19T06:00:00Z"),
+        ],
+        "binary_sensor.attic": [],
+      },
+    ]);
+  });
+
+  it("should add live changes to the series", () => {
+    const first = state("sensor.power", "100", "2026-10-19T06:00:00Z");
+    const { history, stateChanged$ } = createHistory([[first]]);
+    const results: string[][] = [];
+
+    const subscription = history
+      .entity$("sensor.power", new Date("2026-10-19T06:00:00Z"), {
+        live: true,
+      })
+      .subscribe((v) => results.push(v.map((s) => s.state)));
+
+    const second = state("sensor.power", "120", "2026-10-19T06:01:00Z");
+    stateChanged$.next({ entity_id: "sensor.power", new_state: second });
+    // Only an attribute changed.
+    stateChanged$.next({ entity_id: "sensor.power", new_state: second });
+    stateChanged$.next({ entity_id: "sensor.other", new_state: second });
+
+    expect(results).toEqual([["100"], ["100", "120"]]);
+    subscription.unsubscribe();
+  });
+
+  it("should keep the changes which arrive while the query is in flight", () => {
+    const response$ = new Subject<HistoryState[][]>();
+    const { history, stateChanged$ } = createHistory(response$);
+    const results: string[][] = [];
+
+    const subscription = history
+      .entity$("sensor.power", new Date("2026-10-19T06:00:00Z"), {
+        live: true,
+      })
+      .subscribe((v) => results.push(v.map((s) => s.state)));
+
+    const queried = state("sensor.power", "110", "2026-10-19T06:00:30Z");
+    stateChanged$.next({ entity_id: "sensor.power", new_state: queried });
+    stateChanged$.next({
+      entity_id: "sensor.power",
+      new_state: state("sensor.power", "120", "2026-10-19T06:01:00Z"),
+    });
+    expect(results).toEqual([]);
+
+    response$.next([
+      [state("sensor.power", "100", "2026-10-19T06:00:00Z"), queried],
+    ]);
+
+    expect(results).toEqual([["100", "110", "120"]]);
+    subscription.unsubscribe();
+  });
+
+  it("should move today along at midnight", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 23, 59));
+    const { history, requests } = createHistory();
+
+    const subscription = history.entity$("sensor.power", "today").subscribe();
+    await vi.advanceTimersByTimeAsync(ms("2m"));
+
+    expect(requests.map(({ path }) => path[2])).toEqual([
+      new Date(2026, 9, 19),
+      new Date(2026, 9, 20),
+    ]);
+    subscription.unsubscribe();
+  });
+
+  it("should query a rolling window again every minute", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+    const { history, requests } = createHistory();
+
+    const subscription = history.entity$("sensor.power", "last 2h").subscribe();
+    await vi.advanceTimersByTimeAsync(ms("1m"));
+
+    expect(requests.map(({ path }) => path[2])).toEqual([
+      new Date("2026-10-19T10:00:00Z"),
+      new Date("2026-10-19T10:01:00Z"),
+    ]);
+    subscription.unsubscribe();
+  });
+});
@@ -1,35 +1,265 @@
 import DEBUG from "debug";
-import { map, Observable } from "rxjs";
+import ms from "ms";
+import { addDays, startOfDay } from "date-fns";
+import {
+  concat,
+  defer,
+  distinctUntilChanged,
+  filter,
+  ignoreElements,
+  isObservable,
+  map,
+  merge,
+  Observable,
+  of,
+  repeat,
+  scan,
+  switchMap,
+  timer,
+} from "rxjs";
 import { HassEntityBase } from "../types";
+import { EventData } from "./EventCatalogue";
+import Events from "./Events";
 import Rest from "./Rest";
 
 const debug = DEBUG("r-h.history");
 
-type HistoryHassEntityType = HassEntityBase;
+/**
+ * How often a rolling window like "last 2h" moves along.
+ */
+const ROLLING_REFRESH = ms("1m");
+
+/**
+ * With minimal_response only the first state of an entity has its entity_id and attributes.
+ */
+export type HistoryState = Pick<HassEntityBase, "state" | "last_changed"> &
+  Partial<HassEntityBase>;
+
+export type HistorySeries = Record<string, HistoryState[]>;
+
+/**
+ * Where the history starts.
+ *
+ * A Date is fixed, an observable queries again for every date it emits.
+ * "today" starts at midnight and moves along at the next one.
+ * "last 2h" or any other duration ms understands moves along every minute.
+ */
+export type HistoryWindow =
+  | Date
+  | Observable<Date>
+  | "today"
+  | `last ${string}`;
+
+/**
+ * A live series, with the changes which arrived before the query answered.
+ */
+type LiveSeries = {
+  series?: HistorySeries;
+  pending: EventData<"state_changed">[];
+};
+
+export type HistoryOptions = {
+  /**
+   * Defaults to now.
+   */
+  end?: Date;
+  /**
+   * Leaves out the attributes of everything but the first state.
+   */
+  minimalResponse?: boolean;
+  /**
+   * Only states which changed, not attribute updates. HA defaults to true.
+   */
+  significantChangesOnly?: boolean;
+  /**
+   * Keeps adding the state_changed events after the query. Ignored with an end.
+   */
+  live?: boolean;
+};
 
 export default class History {
   rest: Rest;
+  events: Events;
 
-  constructor({ rest }: { rest: Rest }) {
+  constructor({ rest, events }: { rest: Rest; events: Events }) {
     this.rest = rest;
+    this.events = events;
   }
 
-  // TODO: Would be cool if we could put in an observable for the Date.
-  //       That would rebuild the URL every time the observable changes and would trigger the request again.
-  entity$(id: string, since?: Date): Observable<HistoryHassEntityType[]> {
-    const raw$ = this.rest.get$<HistoryHassEntityType[][]>(
-      ["history", "period", since],
-      { queryParams: new URLSearchParams({ filter_entity_id: id }) }
+  entity$(
+    id: string,
+    since?: HistoryWindow,
+    options: HistoryOptions = {}
+  ): Observable<HistoryState[]> {
+    return this.entities$([id], since, options).pipe(
+      map((series) => series[id])
+    );
+  }
+
+  /**
+   * The history of every entity, keyed by entity id.
+   * Entities without history get an empty list.
+   */
+  entities$(
+    ids: string[],
+    since?: HistoryWindow,
+    options: HistoryOptions = {}
+  ): Observable<HistorySeries> {
+    const live = !!options.live && !options.end;
+    const significantChangesOnly = options.significantChangesOnly ?? true;
+
+    const changes$ = this.events.stateChanged$.pipe(
+      filter((data) => ids.includes(data.entity_id) && !!data.new_state)
     );
 
-    return raw$.pipe(
-      map((result) => {
-        debug(`history for ${id}`, result);
-        if (!result || !result[0]) {
-          return [];
+    return windowStart$(since).pipe(
+      switchMap((start) => {
+        const history$ = this.query$(ids, start, options);
+        if (!live) {
+          return history$;
         }
-        return result[0].filter((v) => v.entity_id === id);
+
+        // Changes while the query is in flight are held back until the series is there.
+        return merge(
+          changes$.pipe(map((change) => ({ change }))),
+          history$.pipe(map((series) => ({ series })))
+        ).pipe(
+          scan(
+            (acc: LiveSeries, item): LiveSeries => {
+              if ("series" in item) {
+                return {
+                  series: acc.pending
+                    .filter((change) => isNewer(item.series, change))
+                    .reduce(
+                      (series, change) =>
+                        appendChange(series, change, significantChangesOnly),
+                      item.series
+                    ),
+                  pending: [],
+                };
+              }
+
+              if (!acc.series) {
+                return { pending: [...acc.pending, item.change] };
+              }
+
+              return {
+                series: appendChange(
+                  acc.series,
+                  item.change,
+                  significantChangesOnly
+                ),
+                pending: [],
+              };
+            },
+            { pending: [] }
+          ),
+          map((acc) => acc.series),
+          filter((series): series is HistorySeries => !!series),
+          distinctUntilChanged()
+        );
       })
     );
   }
+
+  private query$(
+    ids: string[],
+    start: Date | undefined,
+    options: HistoryOptions
+  ): Observable<HistorySeries> {
+    const queryParams = new URLSearchParams({
+      filter_entity_id: ids.join(","),
+    });
+    if (options.end) {
+      queryParams.set("end_time", options.end.toJSON());
+    }
+    if (options.minimalResponse) {
+      queryParams.set("minimal_response", "");
+    }
+    if (options.significantChangesOnly === false) {
+      queryParams.set("significant_changes_only", "0");
+    }
+
+    return this.rest
+      .get$<HistoryState[][]>(["history", "period", start], { queryParams })
+      .pipe(
+        map((result) => {
+          debug(`history for ${ids.join(", ")}`, result);
+
+          // HA returns a list per entity, in no particular order.
+          const series: HistorySeries = Object.fromEntries(
+            ids.map((id) => [id, []])
+          );
+          for (const states of result ?? []) {
+            const id = states[0]?.entity_id;
+            if (id && id in series) {
+              series[id] = states;
+            }
+          }
+
+          return series;
+        })
+      );
+  }
+}
+
+function windowStart$(since?: HistoryWindow): Observable<Date | undefined> {
+  if (since === undefined || since instanceof Date) {
+    return of(since);
+  }
+
+  if (isObservable(since)) {
+    return since;
+  }
+
+  if (since === "today") {
+    return defer(() => {
+      const today = startOfDay(new Date());
+      return concat(of(today), timer(addDays(today, 1)).pipe(ignoreElements()));
+    }).pipe(repeat());
+  }
+
+  const duration = ms(since.replace(/^last /, ""));
+  if (duration === undefined) {
+    throw new Error(`invalid history window ${since}`);
+  }
+
+  return timer(0, ROLLING_REFRESH).pipe(
+    map(() => new Date(Date.now() - duration))
+  );
+}
+
+/**
+ * Whether a change came after the last state the query returned for its entity.
+ */
+function isNewer(
+  series: HistorySeries,
+  { entity_id, new_state }: EventData<"state_changed">
+): boolean {
+  const states = series[entity_id] ?? [];
+  const last = states[states.length - 1];
+
+  return (
+    !last ||
+    !new_state ||
+    Date.parse(new_state.last_changed) > Date.parse(last.last_changed)
+  );
+}
+
+function appendChange(
+  series: HistorySeries,
+  { entity_id, new_state }: EventData<"state_changed">,
+  significantChangesOnly: boolean
+): HistorySeries {
+  const states = series[entity_id] ?? [];
+  const last = states[states.length - 1];
+
+  if (
+    !new_state ||
+    (significantChangesOnly && last?.state === new_state.state)
+  ) {
+    return series;
+  }
+
+  return { ...series, [entity_id]: [...states, new_state] };
 }
@@ -0,0 +1,261 @@
+import { Client, createBroker as createAedes } from "aedes";
+import { AddressInfo, createServer, Server } from "net";
+import { setTimeout } from "timers";
+import { BehaviorSubject } from "rxjs";
+import Config, { IRootConfig } from "./Config";
+import { IServicesCradle } from "./cradle";
+import Mqtt, { MqttMessage } from "./Mqtt";
+
+type FakeBroker = {
+  events: [string, string][];
+  clientIds: string[];
+  connectedClients: () => number;
+  mqtt: Mqtt;
+  reload: (changes: Partial<IRootConfig>) => void;
+  publish: (topic: string, payload: string, retain?: boolean) => void;
+  disconnectClients: () => void;
+  close: () => Promise<void>;
+};
+
+/**
+ * Runs an in-process broker and an Mqtt service connected to it.
+ */
+async function createFakeBroker(
+  overrides: Partial<IRootConfig> = {}
+): Promise<FakeBroker> {
+  const broker = createAedes();
+  broker.authenticate = (client, username, password, done) => {
+    done(
+      null,
+      username === overrides.mqttUsername &&
+        password?.toString() === overrides.mqttPassword
+    );
+  };
+  const server: Server = createServer(broker.handle);
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+
+  const events: [string, string][] = [];
+  const clientIds: string[] = [];
+  const clients = new Set<Client>();
+  broker.on("client", (client) => {
+    clients.add(client);
+    clientIds.push(client.id);
+  });
+  broker.on("clientDisconnect", (client) => clients.delete(client));
+  broker.on("subscribe", (subscriptions) => {
+    subscriptions.forEach(({ topic }) => events.push(["subscribe", topic]));
+  });
+  broker.on("unsubscribe", (topics) => {
+    topics.forEach((topic) => events.push(["unsubscribe", topic]));
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  const root: IRootConfig = {
+    host: "http://127.0.0.1",
+    token: "token",
+    mqttDiscoveryPrefix: "homeassistant",
+    mqttUrl: `mqtt://127.0.0.1:${port}`,
+    objectId: "reactive-hass",
+    ...overrides,
+  };
+
+  const root$ = new BehaviorSubject(root);
+  const config = { root$: () => root$ } as unknown as Config;
+
+  return {
+    events,
+    clientIds,
+    connectedClients: () => clients.size,
+    mqtt: new Mqtt({ config } as unknown as IServicesCradle),
+    reload: (changes) => root$.next({ ...root$.value, ...changes }),
+    publish: (topic, payload, retain = false) => {
+      broker.publish(
+        {
+          cmd: "publish",
+          topic,
+          payload: Buffer.from(payload),
+          qos: 0,
+          retain,
+          dup: false,
+        },
+        () => undefined
+      );
+    },
+    disconnectClients: () => {
+      clients.forEach((client) => client.close());
+    },
+    close: async () => {
+      await new Promise<void>((resolve) => broker.close(() => resolve()));
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 5000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const countEvents = (events: [string, string][], type: string, topic: string) =>
+  events.filter(([t, v]) => t === type && v === topic).length;
+
+describe("Mqtt", () => {
+  let broker: FakeBroker;
+
+  beforeEach(async () => {
+    broker = await createFakeBroker();
+  });
+
+  afterEach(async () => {
+    broker.disconnectClients();
+    await broker.close();
+  });
+
+  it("should share one broker subscription between consumers", async () => {
+    const first: MqttMessage[] = [];
+    const second: MqttMessage[] = [];
+
+    const a = broker.mqtt.subscribe$("test/topic").subscribe((msg) => {
+      first.push(msg);
+    });
+    const b = broker.mqtt.subscribe$("test/topic").subscribe((msg) => {
+      second.push(msg);
+    });
+
+    await waitFor(
+      () => countEvents(broker.events, "subscribe", "test/topic") > 0
+    );
+    broker.publish("test/topic", "hello");
+    await waitFor(() => first.length > 0 && second.length > 0);
+
+    expect(countEvents(broker.events, "subscribe", "test/topic")).toBe(1);
+    expect(first).toEqual([{ topic: "test/topic", payload: "hello" }]);
+    expect(second).toEqual([{ topic: "test/topic", payload: "hello" }]);
+
+    a.unsubscribe();
+    b.unsubscribe();
+  });
+
+  it("should unsubscribe at the broker when the last consumer leaves", async () => {
+    const a = broker.mqtt.subscribe$("test/topic").subscribe();
+    const b = broker.mqtt.subscribe$("test/topic").subscribe();
+    await waitFor(
+      () => countEvents(broker.events, "subscribe", "test/topic") > 0
+    );
+
+    a.unsubscribe();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(countEvents(broker.events, "unsubscribe", "test/topic")).toBe(0);
+
+    b.unsubscribe();
+    await waitFor(
+      () => countEvents(broker.events, "unsubscribe", "test/topic") > 0
+    );
+  });
+
+  it("should replay retained messages to consumers who join later", async () => {
+    broker.publish("state/power", "42", true);
+
+    const first: MqttMessage[] = [];
+    const a = broker.mqtt.subscribe$("state/+").subscribe((msg) => {
+      first.push(msg);
+    });
+    await waitFor(() => first.length > 0);
+
+    const second: MqttMessage[] = [];
+    const b = broker.mqtt.subscribe$("state/+").subscribe((msg) => {
+      second.push(msg);
+    });
+
+    expect(second).toEqual([{ topic: "state/power", payload: "42" }]);
+    expect(countEvents(broker.events, "subscribe", "state/+")).toBe(1);
+
+    a.unsubscribe();
+    b.unsubscribe();
+  });
+
+  it("should restore subscriptions after reconnecting", async () => {
+    const received: MqttMessage[] = [];
+    const a = broker.mqtt.subscribe$("test/topic").subscribe((msg) => {
+      received.push(msg);
+    });
+    await waitFor(
+      () => countEvents(broker.events, "subscribe", "test/topic") > 0
+    );
+
+    broker.disconnectClients();
+    await waitFor(
+      () => countEvents(broker.events, "subscribe", "test/topic") > 1
+    );
+
+    broker.publish("test/topic", "after reconnect");
+    await waitFor(() => received.length > 0);
+
+    expect(received).toEqual([
+      { topic: "test/topic", payload: "after reconnect" },
+    ]);
+
+    a.unsubscribe();
+  });
+
+  it("should connect with the configured credentials and client id", async () => {
+    broker.disconnectClients();
+    await broker.close();
+    broker = await createFakeBroker({
+      mqttUsername: "user",
+      mqttPassword: "secret",
+      mqttClientId: "reactive-hass-test",
+    });
+
+    const a = broker.mqtt.subscribe$("test/topic").subscribe();
+    await waitFor(
+      () => countEvents(broker.events, "subscribe", "test/topic") > 0
+    );
+
+    expect(broker.clientIds).toEqual(["reactive-hass-test"]);
+    a.unsubscribe();
+  });
+
+  it("should end the old client when the config is reloaded", async () => {
+    const a = broker.mqtt.subscribe$("test/topic").subscribe();
+    await waitFor(() => broker.connectedClients() === 1);
+
+    broker.reload({ objectId: "reactive-hass-reloaded" });
+    await waitFor(() => broker.clientIds.length === 2);
+    await waitFor(() => broker.connectedClients() === 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(broker.connectedClients()).toBe(1);
+    a.unsubscribe();
+  });
+
+  it("should stay connected after a reload with a fixed client id", async () => {
+    broker.disconnectClients();
+    await broker.close();
+    broker = await createFakeBroker({ mqttClientId: "reactive-hass-test" });
+
+    const a = broker.mqtt.subscribe$("test/topic").subscribe();
+    await waitFor(() => broker.connectedClients() === 1);
+
+    broker.reload({ objectId: "reactive-hass-reloaded" });
+    await waitFor(() => broker.clientIds.length === 2);
+
+    // The old client would reconnect every second and kick the new one off.
+    await new Promise((resolve) => setTimeout(resolve, 2500));
+
+    expect(broker.clientIds).toEqual([
+      "reactive-hass-test",
+      "reactive-hass-test",
+    ]);
+    expect(broker.connectedClients()).toBe(1);
+    a.unsubscribe();
+  });
+});
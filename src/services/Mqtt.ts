@@ -1,9 +1,15 @@
 import DEBUG from "debug";
 
-import { connect, IClientPublishOptions, IPublishPacket } from "mqtt";
+import { readFileSync } from "fs";
+import {
+  connect,
+  IClientOptions,
+  IClientPublishOptions,
+  IPublishPacket,
+} from "mqtt";
 import ms from "ms";
 
-import { Observable, fromEvent, Subject, EMPTY, merge, of } from "rxjs";
+import { Observable, Subject, EMPTY, merge, of, defer, from } from "rxjs";
 import {
   filter,
   map,
@@ -12,8 +18,17 @@ import {
   shareReplay,
   takeUntil,
   delay,
+  ignoreElements,
+  finalize,
+  share,
 } from "rxjs/operators";
-import Config from "./Config";
+import Config, { IRootConfig } from "./Config";
+import {
+  extractParams,
+  hasWildcards,
+  matchesTopic,
+  patternToFilter,
+} from "../helpers/mqttTopics";
 import { IServicesCradle } from "./cradle";
 
 export interface ISimplifiedMqttClient {
@@ -36,60 +51,139 @@ type MqttSubscribeOptions = {
   assumed?: string | object | Buffer;
 };
 
+export type MqttMessage = {
+  topic: string;
+  payload: string;
+};
+
+export type MqttPatternMessage = MqttMessage & {
+  params: Record<string, string>;
+};
+
 const debug = DEBUG("r-h.mqtt");
 
-function mqttClient(url: string): Observable<ISimplifiedMqttClient> {
+const AVAILABILITY_OPTIONS = { qos: 1, retain: true } as const;
+
+/**
+ * Every entity we announce goes unavailable in HA when this topic says offline.
+ * The broker publishes offline for us through the last will when we die.
+ */
+export function availabilityTopic(config: IRootConfig): string {
+  return `${config.mqttDiscoveryPrefix}/${config.objectId}/availability`;
+}
+
+/**
+ * Empty settings are left out so the client falls back to its own defaults.
+ */
+function clientOptions(config: IRootConfig): IClientOptions {
+  return {
+    username: config.mqttUsername || undefined,
+    password: config.mqttPassword || undefined,
+    ca: config.mqttCa ? readFileSync(config.mqttCa) : undefined,
+    cert: config.mqttCert ? readFileSync(config.mqttCert) : undefined,
+    key: config.mqttKey ? readFileSync(config.mqttKey) : undefined,
+    clientId: config.mqttClientId || undefined,
+    clean: config.mqttClean,
+    keepalive: config.mqttKeepalive,
+    protocolVersion: config.mqttProtocolVersion,
+  };
+}
+
+function mqttClient(config: IRootConfig): Observable<ISimplifiedMqttClient> {
   return new Observable((subscriber) => {
     debug("going to connect");
 
-    const client = connect(url);
+    const availability = availabilityTopic(config);
+
+    const client = connect(config.mqttUrl, {
+      ...clientOptions(config),
+      will: {
+        topic: availability,
+        payload: Buffer.from("offline"),
+        ...AVAILABILITY_OPTIONS,
+      },
+    });
 
     client.on("close", () => {
       debug("close");
     });
 
-    client.on("connect", () => {
-      debug("connect");
+    const message$ = new Observable<[string, Buffer, IPublishPacket]>(
+      (messageSubscriber) => {
+        const onMessage = (
+          topic: string,
+          payload: Buffer,
+          packet: IPublishPacket
+        ) => {
+          messageSubscriber.next([topic, payload, packet]);
+        };
+
+        client.on("message", onMessage);
+
+        return () => {
+          client.off("message", onMessage);
+        };
+      }
+    );
 
-      subscriber.next({
-        message$: fromEvent(client, "message"),
-        publish$: ({
-          options,
-          payload,
-          topic,
-        }: {
-          topic: string;
-          payload: string | Buffer;
-          options?: IClientPublishOptions;
-        }) => {
-          debug("publishing to topic %s -> %j", topic, payload);
-
-          return new Observable((publishSubscriber) => {
-            if (!options) {
-              options = { qos: 1 };
+    const simplified: ISimplifiedMqttClient = {
+      message$: message$.pipe(share()),
+      publish$: ({
+        options,
+        payload,
+        topic,
+      }: {
+        topic: string;
+        payload: string | Buffer;
+        options?: IClientPublishOptions;
+      }) => {
+        debug("publishing to topic %s -> %j", topic, payload);
+
+        return new Observable((publishSubscriber) => {
+          if (!options) {
+            options = { qos: 1 };
+          }
+
+          client.publish(topic, payload, options, (err) => {
+            if (err) {
+              publishSubscriber.error(err);
             }
 
-            client.publish(topic, payload, options, (err) => {
-              if (err) {
-                publishSubscriber.error(err);
-              }
-
-              publishSubscriber.complete();
-            });
+            publishSubscriber.complete();
           });
-        },
-        subscribe$: ({ topic }: { topic: string }) => {
-          return new Observable((subscribeSubscriber) => {
-            client.subscribe(topic, (err) => {
-              if (err) {
-                subscribeSubscriber.error(err);
-              }
-
-              subscribeSubscriber.complete();
-            });
+        });
+      },
+      subscribe$: ({ topic }: { topic: string }) => {
+        return new Observable((subscribeSubscriber) => {
+          debug("subscribing to %s", topic);
+          // QoS 1 so a persistent session keeps our messages during a disconnect.
+          client.subscribe(topic, { qos: 1 }, (err) => {
+            if (err) {
+              subscribeSubscriber.error(err);
+            }
           });
-        },
-      });
+
+          return () => {
+            debug("unsubscribing from %s", topic);
+            client.unsubscribe(topic);
+          };
+        });
+      },
+    };
+
+    let emitted = false;
+
+    client.on("connect", () => {
+      debug("connect");
+
+      client.publish(availability, "online", AVAILABILITY_OPTIONS);
+
+      // The client restores its subscriptions by itself after a reconnect.
+      // So we only hand it out once to avoid everyone subscribing again.
+      if (!emitted) {
+        emitted = true;
+        subscriber.next(simplified);
+      }
     });
 
     if (process.env.DEBUG_MQTT_EVENTS) {
@@ -132,56 +226,51 @@ function mqttClient(url: string): Observable<ISimplifiedMqttClient> {
 
     return () => {
       debug("request for socket termination");
-      client.end();
+      // A clean disconnect does not trigger the last will, so say goodbye ourselves.
+      client.publish(availability, "offline", AVAILABILITY_OPTIONS, () => {
+        client.end();
+      });
     };
-  }).pipe(
-    // This hacky stuff is needed because of TypeScript.
-    // Can this be fixed ?
-    // In any case shareReplay is needed otherwise we thrash the socket after our first connection.
-    (v) => shareReplay(1)(v) as Observable<ISimplifiedMqttClient>
-  );
+  });
 }
 
+/**
+ * There is one broker subscription per topic filter, shared by every local consumer.
+ * It is unsubscribed at the broker once the last consumer leaves.
+ */
 export default class Mqtt {
   private config: Config;
   private client$: Observable<ISimplifiedMqttClient>;
+  private topics = new Map<string, Observable<MqttMessage>>();
 
   constructor(dependencies: IServicesCradle) {
     this.config = dependencies.config;
 
     debug("constructing mqtt instance");
+    // Sharing happens here and not per client, so switching to a new config ends the old client.
     this.client$ = this.config.root$().pipe(
       switchMap((config) => {
-        return mqttClient(config.mqttUrl);
+        return mqttClient(config);
       }),
       shareReplay(1)
     );
   }
 
-  public subscribe$(topic: string, options?: MqttSubscribeOptions) {
-    const stream$ = this.client$.pipe(
-      switchMap((d) => {
-        // Start listening for messages BEFORE subscribing
-        // This ensures we catch retained messages that arrive immediately
-        const replies$ = d.message$.pipe(
-          filter(([incomingTopic]) => incomingTopic === topic),
-          map((args) => args[1].toString()),
-          tap({
-            next(msg) {
-              debug("got message for topic %s -> %s", topic, msg);
-            },
-          })
-        );
-
-        const subscribe$ = d.subscribe$({ topic });
+  /**
+   * Subscribes to a topic filter. Supports the + and # wildcards.
+   * Every message comes with the topic it was published on.
+   */
+  public subscribe$(
+    topic: string,
+    options?: MqttSubscribeOptions
+  ): Observable<MqttMessage> {
+    if (isPresent(options?.assumed) && hasWildcards(topic)) {
+      throw new Error(
+        `can not assume a value for topic filter ${topic} with wildcards`
+      );
+    }
 
-        // Merge both streams - replies$ is already listening when subscribe$ triggers
-        return merge(subscribe$, replies$).pipe(
-          // Filter out the subscription confirmation (empty value)
-          filter((value) => typeof value === "string")
-        );
-      })
-    );
+    const stream$ = this.topic$(topic);
 
     const assumed$ = isPresent(options?.assumed)
       ? of(options?.assumed).pipe(
@@ -192,7 +281,7 @@ export default class Mqtt {
               return EMPTY;
             }
 
-            return this.publish$(topic, value);
+            return this.publish$(topic, value).pipe(ignoreElements());
           })
         )
       : EMPTY;
@@ -200,6 +289,78 @@ export default class Mqtt {
     return merge(stream$, assumed$);
   }
 
+  /**
+   * The shared stream for a topic filter.
+   *
+   * The broker only sends retained messages when subscribing.
+   * So we remember the latest message of every retained topic and replay those to consumers who join later.
+   */
+  private topic$(topic: string): Observable<MqttMessage> {
+    const existing$ = this.topics.get(topic);
+    if (existing$) {
+      return existing$;
+    }
+
+    const retained = new Map<string, MqttMessage>();
+
+    const shared$ = this.client$.pipe(
+      switchMap((d) => {
+        // Start listening for messages BEFORE subscribing
+        // This ensures we catch retained messages that arrive immediately
+        const replies$ = d.message$.pipe(
+          filter(([incomingTopic]) => matchesTopic(topic, incomingTopic)),
+          tap(([incomingTopic, payload, packet]) => {
+            if (packet.retain || retained.has(incomingTopic)) {
+              if (payload.length === 0) {
+                retained.delete(incomingTopic);
+              } else {
+                retained.set(incomingTopic, {
+                  topic: incomingTopic,
+                  payload: payload.toString(),
+                });
+              }
+            }
+          }),
+          map(([incomingTopic, payload]) => ({
+            topic: incomingTopic,
+            payload: payload.toString(),
+          })),
+          tap({
+            next(msg) {
+              debug("got message for topic %s -> %s", msg.topic, msg.payload);
+            },
+          })
+        );
+
+        const subscribe$ = d.subscribe$({ topic }).pipe(ignoreElements());
+
+        // Merge both streams - replies$ is already listening when subscribe$ triggers
+        return merge(subscribe$, replies$);
+      }),
+      finalize(() => retained.clear()),
+      share()
+    );
+
+    const topic$ = defer(() => merge(from([...retained.values()]), shared$));
+
+    this.topics.set(topic, topic$);
+
+    return topic$;
+  }
+
+  /**
+   * Subscribes to a pattern like "teslamate/cars/:carId/:field".
+   * Named levels act as + wildcards and are extracted into params.
+   */
+  public subscribePattern$(pattern: string): Observable<MqttPatternMessage> {
+    return this.subscribe$(patternToFilter(pattern)).pipe(
+      map((msg) => ({
+        ...msg,
+        params: extractParams(pattern, msg.topic) ?? {},
+      }))
+    );
+  }
+
   public publish$(
     topic: string,
     payload: string | Buffer | object,
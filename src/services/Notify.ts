@@ -2,7 +2,7 @@ import { Observable } from "rxjs";
 import DEBUG from "debug";
 
 import { IServicesCradle } from "./cradle";
-import Service from "./Service";
+import Service, { CallPolicy } from "./Service";
 
 const debug = DEBUG("r-h.notify");
 
@@ -17,14 +17,17 @@ export default class Notify {
   /**
    * Sends a single notification.
    */
-  single$(message: string): Observable<boolean> {
+  single$(message: string, policy?: CallPolicy): Observable<boolean> {
     debug("notifying:", message);
-    return this.service.call$({
-      domain: "notify",
-      service: "mobile_app_vincents_iphone",
-      service_data: {
-        message,
+    return this.service.call$(
+      {
+        domain: "notify",
+        service: "mobile_app_vincents_iphone",
+        service_data: {
+          message,
+        },
       },
-    });
+      policy
+    );
   }
 }
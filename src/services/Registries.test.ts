@@ -0,0 +1,113 @@
+import { Observable, of, Subject } from "rxjs";
+import { IServicesCradle } from "./cradle";
+import Registries from "./Registries";
+
+type Lists = Record<string, unknown[]>;
+
+function createFakeSocket(lists: Lists) {
+  const updated$ = new Subject<unknown>();
+  const requests: string[] = [];
+
+  const connection = {
+    sendWithId$(message: { type: string }) {
+      requests.push(message.type);
+      const name = message.type.split("/")[1].replace("_registry", "");
+
+      return of({
+        id: 1,
+        type: "result",
+        success: true,
+        result: lists[name] ?? [],
+      });
+    },
+    subscribe$(): Observable<unknown> {
+      return updated$;
+    },
+  };
+
+  return {
+    updated$,
+    requests,
+    cradle: {
+      socket: { socket$: of(connection) },
+    } as unknown as IServicesCradle,
+  };
+}
+
+const entity = (entityId: string, fields = {}) => ({
+  entity_id: entityId,
+  device_id: null,
+  area_id: null,
+  labels: [],
+  ...fields,
+});
+
+const lists: Lists = {
+  area: [
+    { area_id: "living_room", floor_id: "ground_floor", labels: [] },
+    { area_id: "attic", floor_id: "top_floor", labels: [] },
+  ],
+  device: [{ id: "hue-1", area_id: "living_room", labels: ["solar_load"] }],
+  entity: [
+    entity("light.couch", { device_id: "hue-1" }),
+    entity("light.reading", { device_id: "hue-1", area_id: "attic" }),
+    entity("switch.boiler", { labels: ["solar_load"] }),
+  ],
+};
+
+describe("Registries", () => {
+  it("should place entities in the area of their device unless they have their own", () => {
+    const fake = createFakeSocket(lists);
+    const registries = new Registries(fake.cradle);
+
+    const livingRoom: string[][] = [];
+    const topFloor: string[][] = [];
+    const a = registries
+      .entityIdsInArea$("living_room")
+      .subscribe((v) => livingRoom.push(v));
+    const b = registries
+      .entityIdsOnFloor$("top_floor")
+      .subscribe((v) => topFloor.push(v));
+
+    expect(livingRoom).toEqual([["light.couch"]]);
+    expect(topFloor).toEqual([["light.reading"]]);
+
+    a.unsubscribe();
+    b.unsubscribe();
+  });
+
+  it("should find labels on the entity and on its device", () => {
+    const fake = createFakeSocket(lists);
+    const registries = new Registries(fake.cradle);
+
+    const labelled: string[][] = [];
+    const subscription = registries
+      .entityIdsWithLabel$("solar_load")
+      .subscribe((v) => labelled.push(v));
+
+    expect(labelled).toEqual([
+      ["light.couch", "light.reading", "switch.boiler"],
+    ]);
+    subscription.unsubscribe();
+  });
+
+  it("should reload a registry once the updated events calm down", () => {
+    vi.useFakeTimers();
+
+    const fake = createFakeSocket(lists);
+    const registries = new Registries(fake.cradle);
+    const subscription = registries.areas$.subscribe();
+
+    fake.updated$.next({ event: { data: { action: "create" } } });
+    fake.updated$.next({ event: { data: { action: "update" } } });
+    vi.advanceTimersByTime(500);
+
+    expect(fake.requests).toEqual([
+      "config/area_registry/list",
+      "config/area_registry/list",
+    ]);
+
+    subscription.unsubscribe();
+    vi.useRealTimers();
+  });
+});
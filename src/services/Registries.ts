@@ -0,0 +1,196 @@
+import { combineLatest, defer, Observable, of, throwError } from "rxjs";
+import {
+  debounceTime,
+  distinctUntilChanged,
+  filter,
+  map,
+  shareReplay,
+  startWith,
+  switchMap,
+  take,
+} from "rxjs/operators";
+import DEBUG from "debug";
+import ms from "ms";
+import {
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  EntityRegistryEntry,
+  FloorRegistryEntry,
+  HassServiceTarget,
+  LabelRegistryEntry,
+} from "../types";
+import { expandTarget } from "../helpers/expandTarget";
+import { IServicesCradle } from "./cradle";
+import Socket, { SocketManager, SocketResultError } from "./Socket";
+
+const debug = DEBUG("r-h.registries");
+
+/**
+ * HA fires a burst of updated events when it starts or when an integration sets up its entities.
+ * We only reload once it calms down.
+ */
+const RELOAD_DEBOUNCE = ms("500ms");
+
+type RegistryName = "area" | "device" | "entity" | "floor" | "label";
+
+/**
+ * Keeps the area, device, entity, floor and label registries of HA in memory.
+ *
+ * Every registry is loaded once per connection and reloaded on its <name>_registry_updated event.
+ * They are only loaded while someone is listening.
+ */
+export default class Registries {
+  socket: Socket;
+
+  areas$: Observable<AreaRegistryEntry[]>;
+  devices$: Observable<DeviceRegistryEntry[]>;
+  entities$: Observable<EntityRegistryEntry[]>;
+  floors$: Observable<FloorRegistryEntry[]>;
+  labels$: Observable<LabelRegistryEntry[]>;
+
+  constructor(dependencies: IServicesCradle) {
+    this.socket = dependencies.socket;
+
+    this.areas$ = this.registry$("area");
+    this.devices$ = this.registry$("device");
+    this.entities$ = this.registry$("entity");
+    this.floors$ = this.registry$("floor");
+    this.labels$ = this.registry$("label");
+  }
+
+  /**
+   * The entities in an area. Entities without an area of their own are in the area of their device.
+   */
+  entityIdsInArea$(areaId: string): Observable<string[]> {
+    return this.placedEntities$().pipe(
+      map((entities) =>
+        entities
+          .filter((entity) => entity.areaId === areaId)
+          .map((entity) => entity.entityId)
+      ),
+      distinctUntilChanged(sameIds)
+    );
+  }
+
+  /**
+   * The entities in any of the areas on a floor.
+   */
+  entityIdsOnFloor$(floorId: string): Observable<string[]> {
+    return combineLatest([this.placedEntities$(), this.areas$]).pipe(
+      map(([entities, areas]) => {
+        const areaIds = areas
+          .filter((area) => area.floor_id === floorId)
+          .map((area) => area.area_id);
+
+        return entities
+          .filter(
+            (entity) => !!entity.areaId && areaIds.includes(entity.areaId)
+          )
+          .map((entity) => entity.entityId);
+      }),
+      distinctUntilChanged(sameIds)
+    );
+  }
+
+  /**
+   * The entities with a label, either on the entity itself or on its device.
+   */
+  entityIdsWithLabel$(labelId: string): Observable<string[]> {
+    return combineLatest([this.entities$, this.devices$]).pipe(
+      map(([entities, devices]) => {
+        const deviceIds = devices
+          .filter((device) => device.labels.includes(labelId))
+          .map((device) => device.id);
+
+        return entities
+          .filter(
+            (entity) =>
+              entity.labels.includes(labelId) ||
+              (!!entity.device_id && deviceIds.includes(entity.device_id))
+          )
+          .map((entity) => entity.entity_id);
+      }),
+      distinctUntilChanged(sameIds)
+    );
+  }
+
+  /**
+   * The entity ids a service call with this target affects, see expandTarget.
+   */
+  expandTarget$(
+    target: HassServiceTarget,
+    domain?: string
+  ): Observable<string[]> {
+    return combineLatest([this.areas$, this.devices$, this.entities$]).pipe(
+      map(([areas, devices, entities]) =>
+        expandTarget(target, { areas, devices, entities }, domain)
+      ),
+      distinctUntilChanged(sameIds)
+    );
+  }
+
+  private placedEntities$(): Observable<
+    { entityId: string; areaId: string | null }[]
+  > {
+    return combineLatest([this.entities$, this.devices$]).pipe(
+      map(([entities, devices]) => {
+        const deviceAreas = new Map(
+          devices.map((device) => [device.id, device.area_id])
+        );
+
+        return entities.map((entity) => ({
+          entityId: entity.entity_id,
+          areaId:
+            entity.area_id ??
+            (entity.device_id
+              ? (deviceAreas.get(entity.device_id) ?? null)
+              : null),
+        }));
+      })
+    );
+  }
+
+  private registry$<T>(name: RegistryName): Observable<T[]> {
+    return this.socket.socket$.pipe(
+      switchMap((connection) => {
+        const list$ = defer(() => {
+          debug("loading the %s registry", name);
+          return loadRegistry$<T>(connection, name);
+        });
+
+        return connection
+          .subscribe$({
+            type: "subscribe_events",
+            event_type: `${name}_registry_updated`,
+          })
+          .pipe(
+            debounceTime(RELOAD_DEBOUNCE),
+            startWith(null),
+            switchMap(() => list$)
+          );
+      }),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+  }
+}
+
+function loadRegistry$<T>(
+  connection: SocketManager,
+  name: RegistryName
+): Observable<T[]> {
+  const request = { type: `config/${name}_registry/list` };
+
+  return connection.sendWithId$(request).pipe(
+    filter((msg) => msg.type === "result"),
+    take(1),
+    switchMap((msg) =>
+      msg.success
+        ? of(msg.result as T[])
+        : throwError(() => new SocketResultError(request, msg.error))
+    )
+  );
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
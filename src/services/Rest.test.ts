@@ -0,0 +1,78 @@
+/* global Response */
+import { firstValueFrom, of } from "rxjs";
+import Config from "./Config";
+import Rest from "./Rest";
+
+function createRest(response: Response) {
+  const fetch = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal("fetch", fetch);
+
+  const config = {
+    root$: () => of({ host: "http://ha.local:8123/", token: "token" }),
+  } as unknown as Config;
+
+  return { rest: new Rest({ config }), fetch };
+}
+
+describe("Rest", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should post templates as JSON and read the rendered text", async () => {
+    const { rest, fetch } = createRest(new Response("1200 W"));
+
+    await expect(
+      firstValueFrom(
+        rest.renderTemplate$("{{ states(entity) }} W", {
+          entity: "sensor.power",
+        })
+      )
+    ).resolves.toBe("1200 W");
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url.href).toBe("http://ha.local:8123/api/template");
+    expect(init).toEqual({
+      method: "POST",
+      headers: {
+        authorization: "Bearer token",
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        template: "{{ states(entity) }} W",
+        variables: { entity: "sensor.power" },
+      }),
+    });
+  });
+
+  it("should encode path segments and query parameters", async () => {
+    const { rest, fetch } = createRest(Response.json([]));
+
+    await firstValueFrom(
+      rest.logbook$(new Date("2026-10-19T06:00:00Z"), {
+        end: new Date("2026-10-19T08:00:00Z"),
+        entityId: "light.couch",
+      })
+    );
+
+    expect(fetch.mock.calls[0][0].href).toBe(
+      "http://ha.local:8123/api/logbook/2026-10-19T06%3A00%3A00.000Z?end_time=2026-10-19T08%3A00%3A00.000Z&entity=light.couch"
+    );
+  });
+
+  it("should read camera images as a buffer", async () => {
+    const { rest } = createRest(new Response(new Uint8Array([0xff, 0xd8])));
+
+    const image = await firstValueFrom(rest.cameraProxy$("camera.front_door"));
+
+    expect(image).toEqual(Buffer.from([0xff, 0xd8]));
+  });
+
+  it("should fail on error status codes", async () => {
+    const { rest } = createRest(new Response("", { status: 401 }));
+
+    await expect(firstValueFrom(rest.errorLog$())).rejects.toThrow(
+      "bad status code 401"
+    );
+  });
+});
@@ -1,18 +1,66 @@
 /// <reference lib="dom" />
+import { URL } from "url";
 import DEBUG from "debug";
 import { differenceInMilliseconds } from "date-fns";
-import { from, Observable, switchMap } from "rxjs";
+import { from, Observable, switchMap, take } from "rxjs";
 import Config from "./Config";
 
-const debug = DEBUG("r-h.events");
+const debug = DEBUG("r-h.rest");
 
 type RestOptions = {
   method: "GET" | "POST";
   queryParams?: URLSearchParams;
+  /**
+   * Sent as JSON.
+   */
+  body?: unknown;
+  /**
+   * How to read the response. Defaults to json.
+   */
+  responseType?: "json" | "text" | "binary";
 };
 
 type PathType = string | (string | Date | undefined | null)[];
 
+export type LogbookEntry = {
+  when: string;
+  name: string;
+  message?: string;
+  entity_id?: string;
+  state?: string;
+  domain?: string;
+  context_user_id?: string | null;
+};
+
+export type Calendar = {
+  entity_id: string;
+  name: string;
+};
+
+/**
+ * Either a dateTime for timed events or a date for all-day events.
+ */
+type CalendarTime = { dateTime?: string; date?: string };
+
+export type RestCalendarEvent = {
+  summary: string;
+  start: CalendarTime;
+  end: CalendarTime;
+  description?: string | null;
+  location?: string | null;
+  uid?: string | null;
+};
+
+export type CheckConfigResult = {
+  result: "valid" | "invalid";
+  errors: string | null;
+  warnings: string | null;
+};
+
+/**
+ * The REST API of HA.
+ * https://developers.home-assistant.io/docs/api/rest/
+ */
 export default class Rest {
   config: Config;
 
@@ -21,26 +69,39 @@ export default class Rest {
   }
 
   fetch$<T extends any>(path: PathType, options: RestOptions): Observable<T> {
+    // A request is done once answered, even when the config changes later on.
     return this.config.root$().pipe(
+      take(1),
       switchMap((config) => {
         const doPromise = async () => {
-          const basePath = createBasePath(path);
-          const actualPath = options.queryParams
-            ? `${basePath}?${options.queryParams.toString()}`
-            : basePath;
-          const url = `${config.host}/api${actualPath}`;
+          const url = new URL(`${config.host.replace(/\/$/, "")}/api`);
+          url.pathname += createBasePath(path);
+          if (options.queryParams) {
+            url.search = options.queryParams.toString();
+          }
+
+          const headers: Record<string, string> = {
+            authorization: `Bearer ${config.token}`,
+          };
+          if (options.body !== undefined) {
+            headers["content-type"] = "application/json";
+          }
 
-          debug("fetching URL", options.method, url);
+          debug("fetching URL", options.method, url.href);
           const start = new Date().getTime();
           try {
             const result = await fetch(url, {
               method: options.method,
-              headers: { authorization: `Bearer ${config.token}` },
+              headers,
+              body:
+                options.body === undefined
+                  ? undefined
+                  : JSON.stringify(options.body),
             });
             debug(
               "success fetching",
               options.method,
-              url,
+              url.href,
               `${differenceInMilliseconds(new Date(), start)}ms`
             );
 
@@ -48,12 +109,19 @@ export default class Rest {
               throw new Error(`bad status code ${result.status}`);
             }
 
-            return result.json();
+            switch (options.responseType) {
+              case "text":
+                return result.text();
+              case "binary":
+                return Buffer.from(await result.arrayBuffer());
+              default:
+                return result.json();
+            }
           } catch (err: unknown) {
             debug(
               "failed fetching",
               options.method,
-              url,
+              url.href,
               typeof err === "object" && err !== null && "message" in err
                 ? err.message
                 : "",
@@ -68,18 +136,108 @@ export default class Rest {
     );
   }
 
-  get$<T extends any>(path: PathType, options: Omit<RestOptions, "method">) {
+  get$<T extends any>(
+    path: PathType,
+    options: Omit<RestOptions, "method" | "body"> = {}
+  ) {
     return this.fetch$<T>(path, { ...options, method: "GET" });
   }
+
+  post$<T>(
+    path: PathType,
+    body?: unknown,
+    options: Omit<RestOptions, "method" | "body"> = {}
+  ) {
+    return this.fetch$<T>(path, { ...options, method: "POST", body });
+  }
+
+  /**
+   * Renders a Jinja template, like "{{ states('sensor.power') }}".
+   */
+  renderTemplate$(
+    template: string,
+    variables?: Record<string, unknown>
+  ): Observable<string> {
+    return this.post$<string>(
+      ["template"],
+      { template, variables },
+      { responseType: "text" }
+    );
+  }
+
+  /**
+   * The logbook lines since start. Optionally until end and for a single entity.
+   */
+  logbook$(
+    start: Date,
+    { end, entityId }: { end?: Date; entityId?: string } = {}
+  ): Observable<LogbookEntry[]> {
+    const queryParams = new URLSearchParams();
+    if (end) {
+      queryParams.set("end_time", end.toJSON());
+    }
+    if (entityId) {
+      queryParams.set("entity", entityId);
+    }
+
+    return this.get$<LogbookEntry[]>(["logbook", start], { queryParams });
+  }
+
+  calendars$(): Observable<Calendar[]> {
+    return this.get$<Calendar[]>(["calendars"]);
+  }
+
+  /**
+   * The events of a calendar between start and end.
+   */
+  calendarEvents$(
+    entityId: string,
+    start: Date,
+    end: Date
+  ): Observable<RestCalendarEvent[]> {
+    return this.get$<RestCalendarEvent[]>(["calendars", entityId], {
+      queryParams: new URLSearchParams({
+        start: start.toJSON(),
+        end: end.toJSON(),
+      }),
+    });
+  }
+
+  /**
+   * The current image of a camera.
+   */
+  cameraProxy$(entityId: string): Observable<Buffer> {
+    return this.get$<Buffer>(["camera_proxy", entityId], {
+      responseType: "binary",
+    });
+  }
+
+  errorLog$(): Observable<string> {
+    return this.get$<string>(["error_log"], { responseType: "text" });
+  }
+
+  /**
+   * Validates configuration.yaml. Needs the config integration.
+   */
+  checkConfig$(): Observable<CheckConfigResult> {
+    return this.post$<CheckConfigResult>(["config", "core", "check_config"]);
+  }
 }
 
+/**
+ * Joins the path segments. Every segment of an array is encoded, so entity ids and dates are safe to use.
+ */
 function createBasePath(path: PathType): string {
-  return (typeof path === "string" ? [path] : path).reduce((acc: string, v) => {
+  if (typeof path === "string") {
+    return path.startsWith("/") ? path : `/${path}`;
+  }
+
+  return path.reduce((acc: string, v) => {
     if (typeof v === "undefined" || v === null) {
       return acc;
     }
 
-    const append = v instanceof Date ? v.toJSON() : v;
-    return acc + (append.startsWith("/") ? append : `/${append}`);
+    const segment = v instanceof Date ? v.toJSON() : v.replace(/^\//, "");
+    return `${acc}/${encodeURIComponent(segment)}`;
   }, "");
 }
@@ -0,0 +1,143 @@
+import { Client, createBroker as createAedes } from "aedes";
+import { AddressInfo, createServer, Server } from "net";
+import { setTimeout } from "timers";
+import { of, Subject } from "rxjs";
+import Config, { IRootConfig } from "./Config";
+import { IServicesCradle } from "./cradle";
+import Discovery from "./Discovery";
+import HassStatus from "./HassStatus";
+import Mqtt from "./Mqtt";
+import Sensor, { SensorState } from "./Sensor";
+
+type FakeBroker = {
+  published: { topic: string; payload: string }[];
+  sensor: Sensor;
+  close: () => Promise<void>;
+};
+
+/**
+ * Runs an in-process broker and a Sensor service publishing to it.
+ */
+async function createFakeBroker(): Promise<FakeBroker> {
+  const broker = createAedes();
+  const server: Server = createServer(broker.handle);
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+
+  const published: { topic: string; payload: string }[] = [];
+  const clients = new Set<Client>();
+  broker.on("client", (client) => clients.add(client));
+  broker.on("clientDisconnect", (client) => clients.delete(client));
+  broker.on("publish", (packet, client) => {
+    if (client) {
+      published.push({
+        topic: packet.topic,
+        payload: packet.payload.toString(),
+      });
+    }
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  const root: IRootConfig = {
+    host: "http://127.0.0.1",
+    token: "token",
+    mqttDiscoveryPrefix: "homeassistant",
+    mqttUrl: `mqtt://127.0.0.1:${port}`,
+    objectId: "reactive-hass",
+  };
+
+  const config = { root$: () => of(root) } as unknown as Config;
+  const hassStatus = { online$: of(true) } as unknown as HassStatus;
+  const mqtt = new Mqtt({ config } as unknown as IServicesCradle);
+  const discovery = new Discovery({
+    config,
+    hassStatus,
+  } as unknown as IServicesCradle);
+
+  return {
+    published,
+    sensor: new Sensor({ discovery, mqtt } as unknown as IServicesCradle),
+    close: async () => {
+      clients.forEach((client) => client.close());
+      await new Promise<void>((resolve) => broker.close(() => resolve()));
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 5000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const ROOT = "homeassistant/sensor/sensor-power";
+
+describe("Sensor", () => {
+  let broker: FakeBroker;
+
+  beforeEach(async () => {
+    broker = await createFakeBroker();
+  });
+
+  afterEach(async () => {
+    await broker.close();
+  });
+
+  const payloads = (topic: string) =>
+    broker.published
+      .filter((message) => message.topic === topic)
+      .map((message) => message.payload);
+
+  it("should announce itself with the sensor options", async () => {
+    const subscription = broker.sensor
+      .create$(new Subject<SensorState>(), "power", 0, {
+        name: "Power",
+        unitOfMeasurement: "W",
+        deviceClass: "power",
+        stateClass: "measurement",
+      })
+      .subscribe();
+
+    await waitFor(() => payloads(`${ROOT}/config`).length > 0);
+
+    expect(JSON.parse(payloads(`${ROOT}/config`)[0])).toEqual({
+      object_id: "reactive-hass_power",
+      unique_id: "sensor-power",
+      name: "Power",
+      state_topic: `${ROOT}/state`,
+      availability_topic: "homeassistant/reactive-hass/availability",
+      json_attributes_topic: `${ROOT}/attributes`,
+      unit_of_measurement: "W",
+      device_class: "power",
+      state_class: "measurement",
+      device: { model: "Reactive HASS", identifiers: ["reactive-hass"] },
+    });
+    subscription.unsubscribe();
+  });
+
+  it("should publish states, attributes and unknown states", async () => {
+    const state$ = new Subject<SensorState>();
+    const subscription = broker.sensor.create$(state$, "power", 0).subscribe();
+
+    await waitFor(() => payloads(`${ROOT}/state`).length === 1);
+
+    state$.next({ state: 1200, attributes: { phase: "l1" } });
+    await waitFor(() => payloads(`${ROOT}/attributes`).length === 1);
+
+    state$.next(null);
+    await waitFor(() => payloads(`${ROOT}/state`).length === 3);
+
+    expect(payloads(`${ROOT}/state`)).toEqual(["0", "1200", "None"]);
+    expect(payloads(`${ROOT}/attributes`)).toEqual([
+      JSON.stringify({ phase: "l1" }),
+    ]);
+    subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,149 @@
+import DEBUG from "debug";
+import { EMPTY, merge, Observable } from "rxjs";
+import {
+  map,
+  shareReplay,
+  switchMap,
+  switchMapTo,
+  take,
+  tap,
+} from "rxjs/operators";
+import { ValueControl } from "../helpers/ValueControl";
+import { IServicesCradle } from "./cradle";
+import Discovery from "./Discovery";
+import Mqtt from "./Mqtt";
+const debug = DEBUG("r-h.sensor");
+
+/**
+ * HA treats this payload as an unknown state.
+ */
+const PAYLOAD_NONE = "None";
+
+export type SensorValue = string | number | null;
+
+export type SensorStateWithAttributes = {
+  state: SensorValue;
+  attributes: Record<string, unknown>;
+};
+
+export type SensorState = SensorValue | SensorStateWithAttributes;
+
+export type SensorOptions = {
+  name?: string;
+  unitOfMeasurement?: string;
+  /**
+   * https://www.home-assistant.io/integrations/sensor/#device-class
+   */
+  deviceClass?: string;
+  /**
+   * https://developers.home-assistant.io/docs/core/entity/sensor/#available-state-classes
+   */
+  stateClass?: "measurement" | "total" | "total_increasing";
+  icon?: string;
+};
+
+function isStateWithAttributes(
+  value: SensorState
+): value is SensorStateWithAttributes {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * https://www.home-assistant.io/integrations/sensor.mqtt/
+ *
+ * It exposes a number or a piece of text, optionally with attributes.
+ * Which is controlled by us. No external party can change it.
+ */
+export default class Sensor {
+  private discovery: Discovery;
+  private mqtt: Mqtt;
+
+  constructor(services: IServicesCradle) {
+    this.discovery = services.discovery;
+    this.mqtt = services.mqtt;
+  }
+
+  create(
+    id: string,
+    defaultState: SensorState,
+    options?: SensorOptions
+  ): ValueControl<SensorState> {
+    debug(
+      "asking for a sensor with id %s with defaultState %s and options %o",
+      id,
+      defaultState,
+      options
+    );
+
+    const config$ = this.discovery
+      .create$(id, "sensor", { name: options?.name })
+      .pipe(
+        map((discovery) => {
+          return {
+            topic: discovery.topics.config,
+            payload: {
+              ...discovery.payload,
+              json_attributes_topic: `${discovery.topics.root}/attributes`,
+              unit_of_measurement: options?.unitOfMeasurement,
+              device_class: options?.deviceClass,
+              state_class: options?.stateClass,
+              icon: options?.icon,
+            },
+          };
+        }),
+        shareReplay(1)
+      );
+
+    const advertise$ = config$.pipe(
+      switchMap((config) => {
+        return this.mqtt
+          .publish$(config.topic, config.payload)
+          .pipe(take(1), switchMapTo(EMPTY));
+      })
+    );
+
+    return new ValueControl<SensorState>({
+      id,
+      defaultState,
+      run$: advertise$,
+      emit$: (value: SensorState) => {
+        return config$.pipe(
+          take(1),
+          switchMap((config) => {
+            const state = isStateWithAttributes(value) ? value.state : value;
+
+            const state$ = this.mqtt.publish$(
+              config.payload.state_topic,
+              state === null ? PAYLOAD_NONE : String(state)
+            );
+
+            const attributes$ = isStateWithAttributes(value)
+              ? this.mqtt.publish$(
+                  config.payload.json_attributes_topic,
+                  value.attributes
+                )
+              : EMPTY;
+
+            return merge(state$, attributes$).pipe(tap((v) => debug(v)));
+          })
+        );
+      },
+    });
+  }
+
+  create$(
+    state$: Observable<SensorState>,
+    id: string,
+    defaultState: SensorState,
+    options?: SensorOptions
+  ): Observable<unknown> {
+    const instance = this.create(id, defaultState, options);
+    const set$ = state$.pipe(
+      switchMap((value) => {
+        return instance.set(value);
+      })
+    );
+
+    return merge(instance.state$, set$);
+  }
+}
@@ -0,0 +1,301 @@
+import ms from "ms";
+import {
+  defer,
+  firstValueFrom,
+  lastValueFrom,
+  NEVER,
+  of,
+  Subject,
+  throwError,
+  TimeoutError,
+} from "rxjs";
+import { IServicesCradle } from "./cradle";
+import Service, {
+  ServiceInvocationError,
+  ServiceVerificationError,
+} from "./Service";
+import { SocketClosedError } from "./Socket";
+
+type Reply = Record<string, unknown> | Error | "silence";
+
+/**
+ * Every attempt gets the next reply. The last one keeps repeating.
+ */
+function createFakeSocket(...replies: Reply[]) {
+  const sent: Record<string, unknown>[] = [];
+
+  const socket = {
+    invoke$(message: Record<string, unknown>) {
+      return defer(() => {
+        sent.push(message);
+        const reply = replies[Math.min(sent.length, replies.length) - 1];
+
+        if (reply === "silence") {
+          return NEVER;
+        }
+
+        if (reply instanceof Error) {
+          return throwError(() => reply);
+        }
+
+        return of({ id: 1, type: "result", ...reply });
+      });
+    },
+  };
+
+  return {
+    sent,
+    cradle: { socket } as unknown as IServicesCradle,
+  };
+}
+
+describe("Service", () => {
+  it("should ask for the response and emit it", async () => {
+    const forecast = { datetime: "2026-10-19T12:00:00+00:00", temperature: 12 };
+    const fake = createFakeSocket({
+      success: true,
+      result: {
+        context: { id: "ctx" },
+        response: { "weather.home": { forecast: [forecast] } },
+      },
+    });
+    const service = new Service(fake.cradle);
+
+    const response = await firstValueFrom(
+      service.callWithResponse$({
+        domain: "weather",
+        service: "get_forecasts",
+        target: { entity_id: "weather.home" },
+        service_data: { type: "hourly" },
+      })
+    );
+
+    expect(response["weather.home"].forecast).toEqual([forecast]);
+    expect(fake.sent).toEqual([
+      {
+        type: "call_service",
+        domain: "weather",
+        service: "get_forecasts",
+        target: { entity_id: "weather.home" },
+        service_data: { type: "hourly" },
+        return_response: true,
+      },
+    ]);
+  });
+
+  it("should error with the code of HA when the call fails", async () => {
+    const fake = createFakeSocket({
+      success: false,
+      error: {
+        code: "service_validation_error",
+        message: "Service does not support responses",
+      },
+    });
+    const service = new Service(fake.cradle);
+
+    const error = await firstValueFrom(
+      service.callWithResponse$({ domain: "light", service: "turn_on" })
+    ).then(
+      () => null,
+      (e: ServiceInvocationError) => e
+    );
+
+    expect(error).toBeInstanceOf(ServiceInvocationError);
+    expect(error?.code).toBe("service_validation_error");
+  });
+
+  it("should complete without a value for a plain call", async () => {
+    const fake = createFakeSocket({ success: true, result: null });
+    const service = new Service(fake.cradle);
+
+    await expect(
+      lastValueFrom(service.call$({ domain: "switch", service: "turn_on" }), {
+        defaultValue: "completed",
+      })
+    ).resolves.toBe("completed");
+  });
+
+  it("should only accept the fields a typed service knows", async () => {
+    const fake = createFakeSocket({ success: true, result: null });
+    const service = new Service(fake.cradle);
+
+    await lastValueFrom(
+      service.call$({
+        domain: "light",
+        service: "turn_on",
+        // @ts-expect-error brightnes is not a field of light.turn_on
+        service_data: { brightnes: 128 },
+      }),
+      { defaultValue: null }
+    );
+
+    // HA is the one to reject it at runtime.
+    expect(fake.sent[0]).toMatchObject({ service_data: { brightnes: 128 } });
+  });
+
+  describe("policy", () => {
+    const closed = new SocketClosedError({ type: "call_service" });
+    const failed = {
+      success: false,
+      error: { code: "home_assistant_error", message: "Push failed" },
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should not retry by default", async () => {
+      const fake = createFakeSocket(closed, { success: true });
+      const service = new Service(fake.cradle);
+
+      await expect(
+        lastValueFrom(service.call$({ domain: "switch", service: "turn_on" }), {
+          defaultValue: null,
+        })
+      ).rejects.toBeInstanceOf(SocketClosedError);
+      expect(fake.sent).toHaveLength(1);
+    });
+
+    it("should retry with backoff when the connection dropped", async () => {
+      const fake = createFakeSocket(closed, closed, { success: true });
+      const service = new Service(fake.cradle);
+
+      const done = lastValueFrom(
+        service.call$({ domain: "switch", service: "turn_on" }, { retries: 3 }),
+        { defaultValue: "completed" }
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(fake.sent).toHaveLength(2);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await expect(done).resolves.toBe("completed");
+      expect(fake.sent).toHaveLength(3);
+    });
+
+    it("should only retry errors of HA when asked to", async () => {
+      const fake = createFakeSocket(failed, { success: true });
+      const service = new Service(fake.cradle);
+
+      await expect(
+        lastValueFrom(
+          service.call$(
+            { domain: "switch", service: "turn_on" },
+            { retries: 3 }
+          ),
+          { defaultValue: null }
+        )
+      ).rejects.toBeInstanceOf(ServiceInvocationError);
+
+      const done = lastValueFrom(
+        service.call$(
+          { domain: "switch", service: "turn_on" },
+          { retries: 3, retryOn: "any" }
+        ),
+        { defaultValue: "completed" }
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(done).resolves.toBe("completed");
+    });
+
+    it("should give up once the timeout passed", async () => {
+      const fake = createFakeSocket("silence");
+      const service = new Service(fake.cradle);
+
+      const done = lastValueFrom(
+        service.call$(
+          { domain: "notify", service: "mobile_app_phone" },
+          { timeout: "2m" }
+        ),
+        { defaultValue: null }
+      ).catch((e) => e);
+
+      await vi.advanceTimersByTimeAsync(ms("2m"));
+      expect(await done).toBeInstanceOf(TimeoutError);
+      expect(fake.sent).toHaveLength(1);
+    });
+  });
+
+  describe("verify", () => {
+    function createVerifiedService() {
+      const fake = createFakeSocket({ success: true, result: null });
+      const states$: Record<string, Subject<string>> = {
+        "light.couch": new Subject<string>(),
+        "light.reading": new Subject<string>(),
+      };
+      const targets: Record<string, unknown>[] = [];
+
+      const service = new Service({
+        ...fake.cradle,
+        states: { state$: (entityId: string) => states$[entityId] },
+        registries: {
+          expandTarget$: (target: Record<string, unknown>, domain: string) => {
+            targets.push({ target, domain });
+            return of(Object.keys(states$));
+          },
+        },
+      } as unknown as IServicesCradle);
+
+      return { service, states$, targets };
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should complete once every targeted entity reached the state", () => {
+      const { service, states$, targets } = createVerifiedService();
+      let completed = false;
+
+      service
+        .call$(
+          {
+            domain: "light",
+            service: "turn_on",
+            target: { area_id: "living_room" },
+          },
+          { verify: { state: "on" } }
+        )
+        .subscribe({ complete: () => (completed = true) });
+
+      states$["light.couch"].next("on");
+      states$["light.reading"].next("off");
+      expect(completed).toBe(false);
+
+      states$["light.reading"].next("on");
+      expect(completed).toBe(true);
+      expect(targets).toEqual([
+        { target: { area_id: "living_room" }, domain: "light" },
+      ]);
+    });
+
+    it("should name the entities which did not make it in time", async () => {
+      vi.useFakeTimers();
+      const { service, states$ } = createVerifiedService();
+
+      const done = lastValueFrom(
+        service.call$(
+          {
+            domain: "light",
+            service: "turn_on",
+            target: { floor_id: "attic" },
+          },
+          { verify: { state: "on", timeout: "5s" } }
+        ),
+        { defaultValue: null }
+      ).catch((e) => e);
+
+      states$["light.couch"].next("on");
+      await vi.advanceTimersByTimeAsync(5000);
+
+      const error = await done;
+      expect(error).toBeInstanceOf(ServiceVerificationError);
+      expect(error.entityIds).toEqual(["light.reading"]);
+    });
+  });
+});
@@ -1,47 +1,274 @@
 import DEBUG from "debug";
-import { EMPTY, Observable, throwError } from "rxjs";
-import { switchMap, tap } from "rxjs/operators";
+import { concat, EMPTY, merge, Observable, of, throwError, timer } from "rxjs";
+import {
+  filter,
+  ignoreElements,
+  retry,
+  switchMap,
+  take,
+  tap,
+  timeout,
+} from "rxjs/operators";
+import { exponentialBackoff } from "../helpers/exponentialBackoff";
+import { toMs } from "../helpers/toMs";
 import { HassServiceTarget } from "../types";
 import { IServicesCradle } from "./cradle";
-import Socket, { SocketErrorType } from "./Socket";
+import Registries from "./Registries";
+import States from "./States";
+import Socket, { SocketClosedError, SocketErrorType } from "./Socket";
+import { ServiceData, ServiceResponse } from "./ServiceCatalogue";
 
 const debug = DEBUG("r-h.service");
 
-type CallServiceParameters = {
-  domain: string;
-  service: string;
+export type CallServiceParameters<
+  D extends string = string,
+  S extends string = string,
+> = {
+  domain: D;
+  service: S;
   target?: HassServiceTarget;
-  service_data?: {
-    // TODO: type the callserviceparams for the service_data.
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    [key: string]: any;
+  /**
+   * Typed through the ServiceCatalogue. A misspelled field does not compile.
+   */
+  service_data?: ServiceData<D, S>;
+};
+
+/**
+ * What we need to know of a call besides its data, so the service data does not have to be typed.
+ */
+export type CallDescription = Pick<
+  CallServiceParameters,
+  "domain" | "service" | "target"
+>;
+
+const RETRY_BACKOFF = {
+  initialDelay: "1s",
+  maxDelay: "30s",
+} as const;
+
+const VERIFY_TIMEOUT = "10s";
+
+/**
+ * How hard to try getting a service call through.
+ *
+ * Without retries a call is sent at most once.
+ * Waiting for HA to come back online does not count as a retry, only the timeout limits it.
+ */
+export type CallPolicy = {
+  /**
+   * Gives up with a TimeoutError when the call did not succeed within this time, retries included.
+   * Number in ms or string like "2m". Waits for as long as it takes by default.
+   */
+  timeout?: number | string;
+  /**
+   * How many times to try again after a failure, with exponential backoff. Defaults to 0.
+   */
+  retries?: number;
+  /**
+   * "disconnect" only retries when the connection dropped before HA answered.
+   * "any" also retries when HA returned an error or took too long. Defaults to "disconnect".
+   */
+  retryOn?: "disconnect" | "any";
+  /**
+   * Checks afterwards that every targeted entity reached this state.
+   * Errors with a ServiceVerificationError when they did not.
+   */
+  verify?: {
+    /**
+     * Like "on" for light.turn_on.
+     */
+    state: string;
+    /**
+     * Number in ms or string like "30s". Defaults to 10 seconds.
+     */
+    timeout?: number | string;
   };
 };
 
 export default class Service {
   socket: Socket;
+  states: States;
+  registries: Registries;
 
   constructor(dependencies: IServicesCradle) {
     this.socket = dependencies.socket;
+    this.states = dependencies.states;
+    this.registries = dependencies.registries;
   }
 
-  call$(options: CallServiceParameters): Observable<never> {
-    return this.socket.invoke$({ type: "call_service", ...options }).pipe(
-      tap(() => debug("triggering %j", options)),
-      switchMap((v) =>
-        v.success
-          ? EMPTY
-          : throwError(new ServiceInvocationError(options, v.error))
+  /**
+   * The entities a call affects, with its area, device, floor and label targets expanded.
+   * Only the entities of the domain of the service are affected, except for the homeassistant domain.
+   */
+  targets$(options: CallDescription): Observable<string[]> {
+    return this.registries
+      .expandTarget$(
+        options.target ?? {},
+        options.domain === "homeassistant" ? undefined : options.domain
       )
+      .pipe(take(1));
+  }
+
+  /**
+   * Calls a service and completes once HA confirms it.
+   * The policy decides how long to keep trying, see CallPolicy.
+   */
+  call$<D extends string, S extends string>(
+    options: CallServiceParameters<D, S>,
+    policy: CallPolicy = {}
+  ): Observable<never> {
+    const call$ = this.socket
+      .invoke$({ type: "call_service", ...options })
+      .pipe(
+        tap(() => debug("triggering %j", options)),
+        switchMap((v) =>
+          v.success
+            ? EMPTY
+            : throwError(() => new ServiceInvocationError(options, v.error))
+        )
+      );
+
+    if (!policy.verify) {
+      return call$.pipe(withPolicy(options, policy));
+    }
+
+    return concat(
+      call$.pipe(withPolicy(options, policy)),
+      this.verify$(options, policy.verify)
+    );
+  }
+
+  /**
+   * Calls a service which returns data, like weather.get_forecasts or calendar.get_events.
+   * Emits the response once and completes.
+   */
+  callWithResponse$<D extends string, S extends string>(
+    options: CallServiceParameters<D, S>,
+    policy: CallPolicy = {}
+  ): Observable<ServiceResponse<D, S>> {
+    return this.socket
+      .invoke$({ type: "call_service", ...options, return_response: true })
+      .pipe(
+        tap(() => debug("triggering with response %j", options)),
+        switchMap((v) =>
+          v.success
+            ? of(v.result.response as ServiceResponse<D, S>)
+            : throwError(() => new ServiceInvocationError(options, v.error))
+        ),
+        withPolicy(options, policy)
+      );
+  }
+
+  private verify$(
+    options: CallDescription,
+    {
+      state,
+      timeout: limit = VERIFY_TIMEOUT,
+    }: NonNullable<CallPolicy["verify"]>
+  ): Observable<never> {
+    return this.targets$(options).pipe(
+      switchMap((entityIds) => {
+        debug("verifying %o become %s", entityIds, state);
+        const pending = new Set(entityIds);
+
+        const reached$ = entityIds.map((entityId) =>
+          this.states.state$(entityId).pipe(
+            filter((v) => v === state),
+            take(1),
+            tap(() => pending.delete(entityId))
+          )
+        );
+
+        return merge(...reached$).pipe(
+          ignoreElements(),
+          timeout({
+            first: toMs(limit),
+            with: () =>
+              throwError(
+                () => new ServiceVerificationError(options, state, [...pending])
+              ),
+          })
+        );
+      })
     );
   }
 }
 
-class ServiceInvocationError extends Error {
+/**
+ * Applies the retries and the overall timeout of a CallPolicy.
+ */
+function withPolicy<T>(
+  options: CallDescription,
+  { timeout: limit, retries = 0, retryOn = "disconnect" }: CallPolicy
+) {
+  return (source$: Observable<T>): Observable<T> => {
+    const retried$ = source$.pipe(
+      retry({
+        count: retries,
+        delay: (error, attempt) => {
+          if (
+            retryOn === "disconnect" &&
+            !(error instanceof SocketClosedError)
+          ) {
+            return throwError(() => error);
+          }
+
+          const wait = exponentialBackoff(attempt, RETRY_BACKOFF);
+          debug(
+            "calling %s.%s failed (%s), retrying in %dms",
+            options.domain,
+            options.service,
+            error?.message,
+            wait
+          );
+
+          return timer(wait);
+        },
+      })
+    );
+
+    if (limit === undefined) {
+      return retried$;
+    }
+
+    return retried$.pipe(timeout({ first: toMs(limit) }));
+  };
+}
+
+export class ServiceInvocationError<
+  D extends string = string,
+  S extends string = string,
+> extends Error {
   constructor(
-    public request: CallServiceParameters,
+    public request: CallServiceParameters<D, S>,
     public error: SocketErrorType
   ) {
-    super(`failed to invoke service ${request.domain}:${request.service}`);
+    super(
+      `failed to invoke service ${request.domain}:${request.service}: ${error.code} ${error.message}`
+    );
+    this.name = "ServiceInvocationError";
+  }
+
+  /**
+   * The error code of HA. Like service_validation_error or not_found.
+   */
+  get code(): string {
+    return this.error.code;
+  }
+}
+
+/**
+ * The call went through, but not every targeted entity reached the expected state in time.
+ */
+export class ServiceVerificationError extends Error {
+  constructor(
+    public request: CallDescription,
+    public state: string,
+    public entityIds: string[]
+  ) {
+    super(
+      `${request.domain}:${request.service} did not make ${entityIds.join(", ")} ${state}`
+    );
+    this.name = "ServiceVerificationError";
   }
 }
@@ -0,0 +1,230 @@
+/**
+ * The service data of the services we call ourselves.
+ * https://www.home-assistant.io/docs/scripts/service-calls/
+ *
+ * Anything which is not in here falls back to the generated catalogue.
+ * And when it is not in there either, to untyped service data.
+ */
+
+type RGB = [number, number, number];
+
+export type LightTurnOnData = {
+  /**
+   * 0 to 255.
+   */
+  brightness?: number;
+  /**
+   * 0 to 100.
+   */
+  brightness_pct?: number;
+  brightness_step?: number;
+  brightness_step_pct?: number;
+  color_temp_kelvin?: number;
+  rgb_color?: RGB;
+  rgbw_color?: [number, number, number, number];
+  hs_color?: [number, number];
+  xy_color?: [number, number];
+  color_name?: string;
+  effect?: string;
+  flash?: "short" | "long";
+  profile?: string;
+  /**
+   * In seconds.
+   */
+  transition?: number;
+};
+
+export type LightTurnOffData = {
+  flash?: "short" | "long";
+  transition?: number;
+};
+
+type HvacMode =
+  | "off"
+  | "heat"
+  | "cool"
+  | "heat_cool"
+  | "auto"
+  | "dry"
+  | "fan_only";
+
+export type ClimateSetTemperatureData = {
+  temperature?: number;
+  target_temp_high?: number;
+  target_temp_low?: number;
+  hvac_mode?: HvacMode;
+};
+
+export type MediaPlayerPlayMediaData = {
+  media_content_id: string;
+  media_content_type: string;
+  enqueue?: "play" | "next" | "add" | "replace";
+  announce?: boolean;
+};
+
+export type NotifyData = {
+  message: string;
+  title?: string;
+  target?: string | string[];
+  /**
+   * Platform specific, like actions for the mobile app.
+   */
+  data?: Record<string, unknown>;
+};
+
+export type WeatherForecast = {
+  datetime: string;
+  condition?: string;
+  temperature?: number;
+  templow?: number;
+  precipitation?: number;
+  precipitation_probability?: number;
+  cloud_coverage?: number;
+  uv_index?: number;
+  wind_speed?: number;
+  is_daytime?: boolean;
+};
+
+export type CalendarEvent = {
+  start: string;
+  end: string;
+  summary: string;
+  description?: string;
+  location?: string;
+};
+
+export type TodoItem = {
+  uid: string;
+  summary: string;
+  status: "needs_action" | "completed";
+  due?: string;
+  description?: string;
+};
+
+type NoData = Record<string, never>;
+
+/**
+ * The responses are keyed by the entity ids in the target.
+ */
+type PerEntity<T> = Record<string, T>;
+
+export interface ServiceCatalogue {
+  light: {
+    turn_on: LightTurnOnData;
+    turn_off: LightTurnOffData;
+    toggle: LightTurnOnData;
+  };
+  switch: {
+    turn_on: NoData;
+    turn_off: NoData;
+    toggle: NoData;
+  };
+  climate: {
+    set_temperature: ClimateSetTemperatureData;
+    set_hvac_mode: { hvac_mode: HvacMode };
+    set_preset_mode: { preset_mode: string };
+    turn_on: NoData;
+    turn_off: NoData;
+  };
+  cover: {
+    open_cover: NoData;
+    close_cover: NoData;
+    stop_cover: NoData;
+    toggle: NoData;
+    /**
+     * 0 is closed and 100 is open.
+     */
+    set_cover_position: { position: number };
+    set_cover_tilt_position: { tilt_position: number };
+  };
+  media_player: {
+    turn_on: NoData;
+    turn_off: NoData;
+    media_play: NoData;
+    media_pause: NoData;
+    media_play_pause: NoData;
+    media_stop: NoData;
+    media_next_track: NoData;
+    media_previous_track: NoData;
+    /**
+     * 0 to 1.
+     */
+    volume_set: { volume_level: number };
+    volume_mute: { is_volume_muted: boolean };
+    play_media: MediaPlayerPlayMediaData;
+    select_source: { source: string };
+  };
+  /**
+   * Every notifier is its own service. Like notify.mobile_app_<device>.
+   */
+  notify: Record<string, NotifyData>;
+  weather: {
+    get_forecasts: { type: "daily" | "hourly" | "twice_daily" };
+  };
+  calendar: {
+    /**
+     * Give an end or a duration. Without a start it starts now.
+     */
+    get_events: {
+      start_date_time?: string;
+      end_date_time?: string;
+      duration?: { days?: number; hours?: number; minutes?: number };
+    };
+  };
+  todo: {
+    get_items: { status?: ("needs_action" | "completed")[] };
+  };
+}
+
+/**
+ * What the services return when calling them with return_response.
+ */
+export interface ServiceResponseCatalogue {
+  weather: {
+    get_forecasts: PerEntity<{ forecast: WeatherForecast[] }>;
+  };
+  calendar: {
+    get_events: PerEntity<{ events: CalendarEvent[] }>;
+  };
+  todo: {
+    get_items: PerEntity<{ items: TodoItem[] }>;
+  };
+}
+
+/**
+ * Filled in by the code generator with every service of our HA instance.
+ * See npm run generate:services.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface GeneratedServiceCatalogue {}
+
+type Untyped = {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: any;
+};
+
+type Lookup<C, D extends string, S extends string> = D extends keyof C
+  ? S extends keyof C[D]
+    ? C[D][S]
+    : never
+  : never;
+
+/**
+ * The response of domain.service. Unknown for services we know nothing about.
+ */
+export type ServiceResponse<D extends string, S extends string> = [
+  Lookup<ServiceResponseCatalogue, D, S>,
+] extends [never]
+  ? unknown
+  : Lookup<ServiceResponseCatalogue, D, S>;
+
+/**
+ * The service data for domain.service. Untyped for services we know nothing about.
+ */
+export type ServiceData<D extends string, S extends string> = [
+  Lookup<ServiceCatalogue, D, S>,
+] extends [never]
+  ? [Lookup<GeneratedServiceCatalogue, D, S>] extends [never]
+    ? Untyped
+    : Lookup<GeneratedServiceCatalogue, D, S>
+  : Lookup<ServiceCatalogue, D, S>;
@@ -0,0 +1,345 @@
+import DEBUG from "debug";
+import { AddressInfo } from "net";
+import { setTimeout } from "timers";
+import { firstValueFrom, of } from "rxjs";
+import { take, toArray } from "rxjs/operators";
+import { WebSocketServer, WebSocket as WS } from "ws";
+import Config, { IRootConfig } from "./Config";
+import Socket, {
+  SocketAuthInvalidError,
+  SocketClosedError,
+  SocketResultError,
+  SocketTimeoutError,
+} from "./Socket";
+
+type FakeHass = {
+  server: WebSocketServer;
+  received: Record<string, unknown>[];
+  config: Config;
+  close: () => Promise<void>;
+};
+
+/**
+ * A tiny stand-in for the HA websocket API.
+ * It asks for auth, checks the token and answers every other message through the handler.
+ * Like HA, it refuses every message after auth without an integer id.
+ */
+async function createFakeHass(
+  onMessage: (ws: WS, msg: Record<string, unknown>) => void = () => undefined,
+  {
+    authDelay = 0,
+    token = "good-token",
+  }: { authDelay?: number; token?: string } = {}
+): Promise<FakeHass> {
+  const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise((resolve) => server.once("listening", resolve));
+
+  const received: Record<string, unknown>[] = [];
+
+  server.on("connection", (ws) => {
+    ws.send(JSON.stringify({ type: "auth_required", ha_version: "2025.10.0" }));
+
+    ws.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      received.push(msg);
+
+      if (msg.type === "auth") {
+        setTimeout(() => {
+          ws.send(
+            JSON.stringify(
+              msg.access_token === "good-token"
+                ? { type: "auth_ok", ha_version: "2025.10.0" }
+                : { type: "auth_invalid", message: "Invalid access token" }
+            )
+          );
+        }, authDelay);
+        return;
+      }
+
+      if (!Number.isInteger(msg.id)) {
+        ws.send(
+          JSON.stringify({
+            type: "result",
+            success: false,
+            error: {
+              code: "invalid_format",
+              message: "Message incorrectly formatted.",
+            },
+          })
+        );
+        return;
+      }
+
+      onMessage(ws, msg);
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  const root: IRootConfig = {
+    host: `http://127.0.0.1:${port}`,
+    token,
+    mqttDiscoveryPrefix: "homeassistant",
+    mqttUrl: "mqtt://127.0.0.1",
+    objectId: "reactive-hass",
+  };
+
+  return {
+    server,
+    received,
+    config: { root$: () => of(root) } as unknown as Config,
+    close: () => {
+      server.clients.forEach((client) => client.terminate());
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+describe("Socket", () => {
+  let hass: FakeHass;
+
+  afterEach(async () => {
+    await hass?.close();
+  });
+
+  it("should hold back messages until HA confirms authentication", async () => {
+    hass = await createFakeHass(
+      (ws, msg) => {
+        ws.send(
+          JSON.stringify({
+            id: msg.id,
+            type: "result",
+            success: true,
+            result: [],
+          })
+        );
+      },
+      { authDelay: 200 }
+    );
+
+    const socket = new Socket({ config: hass.config });
+
+    const result = await firstValueFrom(socket.single$("get_states"));
+
+    expect(result).toEqual({
+      id: 1,
+      type: "result",
+      success: true,
+      result: [],
+    });
+    expect(hass.received.map((msg) => msg.type)).toEqual([
+      "auth",
+      "get_states",
+    ]);
+  });
+
+  it("should keep the token out of the debug log", async () => {
+    hass = await createFakeHass();
+    const namespaces = DEBUG.disable();
+    DEBUG.enable("r-h.socket");
+    const log = vi.spyOn(DEBUG, "log").mockImplementation(() => {});
+
+    try {
+      const socket = new Socket({ config: hass.config });
+      await firstValueFrom(socket.socket$);
+
+      expect(log).toHaveBeenCalled();
+      expect(JSON.stringify(log.mock.calls)).not.toContain("good-token");
+    } finally {
+      log.mockRestore();
+      DEBUG.enable(namespaces);
+    }
+  });
+
+  it("should walk through the connection states", async () => {
+    hass = await createFakeHass();
+
+    const socket = new Socket({ config: hass.config });
+
+    const states = await firstValueFrom(socket.state$.pipe(take(3), toArray()));
+
+    expect(states).toEqual([
+      { status: "connecting" },
+      { status: "auth_required" },
+      { status: "authenticated", haVersion: "2025.10.0" },
+    ]);
+  });
+
+  it("should fail with the HA message when the token is rejected", async () => {
+    hass = await createFakeHass(undefined, { token: "bad-token" });
+
+    const socket = new Socket({ config: hass.config });
+
+    const error = await firstValueFrom(socket.single$("get_states")).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(SocketAuthInvalidError);
+    expect(error.haMessage).toBe("Invalid access token");
+    expect(hass.received.map((msg) => msg.type)).toEqual(["auth"]);
+  });
+
+  it("should re-authenticate and re-subscribe with fresh ids after HA restarts", async () => {
+    hass = await createFakeHass((ws, msg) => {
+      if (msg.type === "subscribe_events") {
+        ws.send(JSON.stringify({ id: msg.id, type: "result", success: true }));
+        ws.send(
+          JSON.stringify({
+            id: msg.id,
+            type: "event",
+            event: { data: { entity_id: "light.test" } },
+          })
+        );
+      }
+    });
+
+    const socket = new Socket({ config: hass.config });
+
+    const events$ = socket
+      .subscribe$({ type: "subscribe_events", event_type: "state_changed" })
+      .pipe(take(2), toArray());
+
+    const done = firstValueFrom(events$);
+
+    // Let the first event arrive, then drop every connection like a HA restart would.
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    hass.server.clients.forEach((client) => client.terminate());
+
+    const events = await done;
+
+    expect(events).toHaveLength(2);
+    expect(hass.received.map((msg) => msg.type)).toEqual([
+      "auth",
+      "subscribe_events",
+      "auth",
+      "subscribe_events",
+    ]);
+    expect(hass.received[3].id).toBe(1);
+  });
+
+  it("should send unsubscribe_events when a subscription is torn down", async () => {
+    const unsubscribed = new Promise<Record<string, unknown>>((resolve) => {
+      const onMessage = (ws: WS, msg: Record<string, unknown>) => {
+        if (msg.type === "subscribe_events") {
+          ws.send(
+            JSON.stringify({
+              id: msg.id,
+              type: "event",
+              event: { data: { entity_id: "light.test" } },
+            })
+          );
+        }
+
+        if (msg.type === "unsubscribe_events") {
+          resolve(msg);
+        }
+      };
+
+      createFakeHass(onMessage).then((created) => {
+        hass = created;
+        new Socket({ config: hass.config })
+          .subscribe$({ type: "subscribe_events" })
+          .pipe(take(1))
+          .subscribe();
+      });
+    });
+
+    expect(await unsubscribed).toEqual({
+      id: 2,
+      type: "unsubscribe_events",
+      subscription: 1,
+    });
+  });
+
+  it("should not unsubscribe from a subscription HA refused", async () => {
+    hass = await createFakeHass((ws, msg) => {
+      if (msg.type === "subscribe_trigger") {
+        ws.send(
+          JSON.stringify({
+            id: msg.id,
+            type: "result",
+            success: false,
+            error: { code: "invalid_format", message: "Invalid trigger" },
+          })
+        );
+      }
+    });
+
+    const socket = new Socket({ config: hass.config });
+
+    const error = await firstValueFrom(
+      socket.subscribe$({ type: "subscribe_trigger", trigger: {} })
+    ).catch((e) => e);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(error).toBeInstanceOf(SocketResultError);
+    expect(hass.received.map((msg) => msg.type)).toEqual([
+      "auth",
+      "subscribe_trigger",
+    ]);
+  });
+
+  it("should reject a pending command instead of sending it again when the connection drops", async () => {
+    hass = await createFakeHass((ws, msg) => {
+      if (msg.type === "call_service") {
+        ws.terminate();
+      }
+    });
+
+    const socket = new Socket({ config: hass.config });
+
+    const error = await firstValueFrom(
+      socket.invoke$({ type: "call_service", domain: "light" })
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SocketClosedError);
+    expect(hass.received.map((msg) => msg.type)).toEqual([
+      "auth",
+      "call_service",
+    ]);
+  });
+
+  it("should reject a pending command as soon as the connection drops, not after the backoff", async () => {
+    let closedAt = 0;
+    hass = await createFakeHass((ws, msg) => {
+      if (msg.type === "call_service") {
+        closedAt = Date.now();
+        ws.terminate();
+      }
+    });
+
+    const socket = new Socket({ config: hass.config });
+    const states: string[] = [];
+    const subscription = socket.state$.subscribe((state) =>
+      states.push(state.status)
+    );
+
+    const error = await firstValueFrom(
+      socket.invoke$({ type: "call_service", domain: "light" })
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SocketClosedError);
+    // The first reconnect waits a whole second.
+    expect(Date.now() - closedAt).toBeLessThan(500);
+    expect(states).toEqual([
+      "connecting",
+      "auth_required",
+      "authenticated",
+      "disconnected",
+    ]);
+    subscription.unsubscribe();
+  });
+
+  it("should time out when HA never answers", async () => {
+    hass = await createFakeHass();
+
+    const socket = new Socket({ config: hass.config });
+
+    const error = await firstValueFrom(
+      socket.invoke$({ type: "call_service" }, { timeout: 100 })
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SocketTimeoutError);
+    expect(error.timeout).toBe(100);
+  });
+});
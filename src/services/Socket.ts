@@ -1,31 +1,68 @@
 /* eslint @typescript-eslint/no-explicit-any:0 */
 import {
-  delay,
+  catchError,
+  concatMap,
+  distinctUntilChanged,
   filter,
+  ignoreElements,
   map,
+  retry,
+  share,
   shareReplay,
+  startWith,
   switchMap,
   switchMapTo,
   take,
   tap,
+  timeout,
 } from "rxjs/operators";
 import DEBUG from "debug";
 
-import { concat, EMPTY, merge, Observable, of } from "rxjs";
+import {
+  concat,
+  defer,
+  EMPTY,
+  merge,
+  Observable,
+  of,
+  throwError,
+  timer,
+} from "rxjs";
 
-import Config from "./Config";
-import WebSocket from "./WebSocket";
+import Config, { IRootConfig } from "./Config";
+import WebSocket, { SocketConnection } from "./WebSocket";
 import { URL } from "url";
 import { Lifetime, RESOLVER } from "awilix";
 import { MessageBase } from "../types";
+import { exponentialBackoff } from "../helpers/exponentialBackoff";
+import { toMs } from "../helpers/toMs";
 
 const debug = DEBUG("r-h.socket");
 
-type SocketManager = {
+const RECONNECT_BACKOFF = {
+  initialDelay: "1s",
+  maxDelay: "1m",
+} as const;
+
+/**
+ * How long HA gets to answer an invoked command.
+ */
+const RESULT_TIMEOUT = "30s";
+
+export type InvokeOptions = {
+  /**
+   * How long to wait for the result once the message is sent.
+   * Number in ms or string like "10s". Defaults to 30 seconds.
+   */
+  timeout?: number | string;
+};
+
+export type SocketManager = {
   messages$: Observable<any>;
   send$: (message: any) => Observable<boolean>;
   next: () => number;
   sendWithId$: (message: any) => Observable<any>;
+  subscribe$: (message: any) => Observable<any>;
 };
 
 export type SocketErrorType = {
@@ -33,98 +70,289 @@ export type SocketErrorType = {
   message: string;
 };
 
-export default class Socket {
-  socket$: Observable<SocketManager>;
+/**
+ * The lifecycle of a single connection to Home Assistant.
+ *
+ * connecting -> auth_required -> authenticated -> disconnected -> connecting
+ *                             -> auth_invalid
+ */
+export type SocketState =
+  | { status: "connecting" }
+  | { status: "disconnected" }
+  | { status: "auth_required" }
+  | { status: "authenticated"; haVersion: string }
+  | { status: "auth_invalid"; message: string };
 
-  constructor({ config }: { config: Config }) {
-    this.socket$ = config.root$().pipe(
-      map((config) => {
-        // TODO: Automatically log in when needed !
-        //       Do this by observing the messages we see and inject a auth,access_token request when we see auth_required.
-        debug("making new websocket for HA with config %j", config);
+type ConnectionState =
+  | Exclude<SocketState, { status: "authenticated" }>
+  | { status: "authenticated"; haVersion: string; manager: SocketManager };
 
-        const url = new URL(config.host);
-        const ws = `ws${url.protocol === "https:" ? "s" : ""}://${
-          url.host
-        }/api/websocket`;
+/**
+ * Home Assistant rejected our access token.
+ * Retrying with the same token is pointless, so this is not retried.
+ */
+export class SocketAuthInvalidError extends Error {
+  constructor(public haMessage: string) {
+    super(`authentication with HA failed: ${haMessage}`);
+  }
+}
 
-        const socket = new WebSocket(ws);
+/**
+ * HA answered a command with success: false.
+ */
+export class SocketResultError extends Error {
+  constructor(
+    public request: Record<string, unknown>,
+    public error: SocketErrorType
+  ) {
+    super(`${request.type} failed: ${error.code} ${error.message}`);
+  }
+}
 
-        const stringMessages$ = socket.messages$.pipe(
-          map((msg) => (typeof msg.data === "string" ? msg.data : null)),
-          filter((v) => !!v)
-        );
+/**
+ * The connection dropped after sending a command, but before HA answered.
+ * There is no telling whether HA executed it.
+ */
+export class SocketClosedError extends Error {
+  constructor(public request: Record<string, unknown>) {
+    super(`connection closed while waiting for the result of ${request.type}`);
+    this.name = "SocketClosedError";
+  }
+}
 
-        // We know for a fact it can only be a string here.
-        const parsedMessages$: Observable<MessageBase> = (
-          stringMessages$ as Observable<string>
-        ).pipe(map((v) => JSON.parse(v)));
+/**
+ * HA did not answer a command in time.
+ */
+export class SocketTimeoutError extends Error {
+  constructor(
+    public request: Record<string, unknown>,
+    public timeout: number
+  ) {
+    super(`no result for ${request.type} within ${timeout}ms`);
+    this.name = "SocketTimeoutError";
+  }
+}
 
-        const authRequired$ = parsedMessages$.pipe(
-          filter((msg) => msg.type === "auth_required"),
-          tap(() => debug("auth required!"))
-        );
+/**
+ * Builds the manager for a single authenticated connection.
+ * Message ids restart for every connection, just like Home Assistant expects.
+ */
+function createSocketManager(
+  messages$: Observable<MessageBase>,
+  rawSend$: (msg: any) => Observable<boolean>
+): SocketManager {
+  let i = 0;
+  function next() {
+    i += 1;
+    return i;
+  }
 
-        const rawSend$ = (msg: any) => {
-          return socket.send$(JSON.stringify(msg));
-        };
+  const messagesForId$ = (id: number) => {
+    return messages$.pipe(
+      filter((item: any) => {
+        return !!item && item.id === id;
+      })
+    );
+  };
 
-        const sendAuth$ = rawSend$({
-          type: "auth",
-          access_token: config.token,
-        }).pipe(switchMapTo(EMPTY));
+  return {
+    messages$,
+    send$: rawSend$,
+    sendWithId$(message: Record<string, unknown>) {
+      const id = next();
 
-        const respondToAuthentication$ = authRequired$.pipe(
-          tap(() => {
-            debug("sending auth!");
-          }),
-          switchMap(() => sendAuth$)
-        );
+      const result$ = messagesForId$(id);
 
-        const ensureAuthenticated$ = of(1).pipe(
-          delay(1000),
-          switchMapTo(EMPTY)
-        );
+      const sendAndHide$ = rawSend$({ ...message, id }).pipe(
+        switchMapTo(EMPTY)
+      );
 
-        let i = 0;
-        function next() {
-          i += 1;
-          return i;
-        }
+      return merge(result$, sendAndHide$);
+    },
+    subscribe$(message: Record<string, unknown>) {
+      return new Observable<any>((subscriber) => {
+        const id = next();
+        let refused = false;
+
+        const subscription = merge(
+          messagesForId$(id),
+          rawSend$({ ...message, id }).pipe(switchMapTo(EMPTY))
+        )
+          .pipe(
+            filter((v) => {
+              if (v.type === "result" && !v.success) {
+                refused = true;
+                throw new SocketResultError(message, v.error);
+              }
 
-        const messages$ = merge(respondToAuthentication$, parsedMessages$);
+              return v.type !== "result";
+            })
+          )
+          .subscribe(subscriber);
+
+        return () => {
+          subscription.unsubscribe();
+
+          // A refused subscription never existed at HA.
+          if (refused) {
+            return;
+          }
 
-        const send$ = (msg: any) => {
-          return concat(ensureAuthenticated$, rawSend$(msg));
+          // HA cancels every kind of subscription through unsubscribe_events.
+          // When the connection is already gone there is nothing left to cancel.
+          debug("unsubscribing from %d", id);
+          rawSend$({
+            id: next(),
+            type: "unsubscribe_events",
+            subscription: id,
+          }).subscribe({
+            error: () => undefined,
+          });
         };
+      });
+    },
+    next,
+  };
+}
 
-        const messagesForId$ = (id: number) => {
-          return messages$.pipe(
-            filter((item: any) => {
-              return !!item && item.id === id;
-            })
+/**
+ * Runs the auth handshake on an open connection.
+ * Only once HA answers with auth_ok do we hand out a manager, so nothing gets sent before that.
+ */
+function handshake$(
+  connection: SocketConnection,
+  config: IRootConfig
+): Observable<ConnectionState> {
+  const stringMessages$ = connection.messages$.pipe(
+    map((msg) => (typeof msg.data === "string" ? msg.data : null)),
+    filter((v) => !!v)
+  );
+
+  // We know for a fact it can only be a string here.
+  const parsedMessages$: Observable<MessageBase> = (
+    stringMessages$ as Observable<string>
+  ).pipe(
+    map((v) => JSON.parse(v)),
+    share()
+  );
+
+  const rawSend$ = (msg: any) => {
+    return connection.send$(JSON.stringify(msg));
+  };
+
+  return parsedMessages$.pipe(
+    concatMap((msg): Observable<ConnectionState> => {
+      switch (msg.type) {
+        case "auth_required":
+          debug("auth required, sending auth!");
+          return concat(
+            of({ status: "auth_required" as const }),
+            rawSend$({ type: "auth", access_token: config.token }).pipe(
+              ignoreElements()
+            )
           );
-        };
+        case "auth_ok":
+          debug("authenticated with HA %s", msg.ha_version);
+          return of({
+            status: "authenticated" as const,
+            haVersion: msg.ha_version,
+            manager: createSocketManager(parsedMessages$, rawSend$),
+          });
+        case "auth_invalid":
+          debug("authentication failed: %s", msg.message);
+          return concat(
+            of({ status: "auth_invalid" as const, message: msg.message }),
+            throwError(() => new SocketAuthInvalidError(msg.message))
+          );
+        default:
+          return EMPTY;
+      }
+    })
+  );
+}
 
-        return {
-          messages$,
-          send$,
-          sendWithId$(message: Record<string, unknown>) {
-            const id = next();
+/**
+ * Keeps an authenticated connection to Home Assistant open.
+ *
+ * socket$ emits a new manager every time we (re)connect and authenticate.
+ * Everything built with switchMap on top of it will automatically re-send its messages on the new connection.
+ */
+export default class Socket {
+  socket$: Observable<SocketManager>;
+  state$: Observable<SocketState>;
 
-            const result$ = messagesForId$(id);
+  private connection$: Observable<ConnectionState>;
 
-            const sendAndHide$ = send$({ ...message, id }).pipe(
-              switchMapTo(EMPTY)
-            );
+  constructor({ config }: { config: Config }) {
+    this.connection$ = config.root$().pipe(
+      switchMap((config) => {
+        debug("making new websocket for HA at %s", config.host);
 
-            return merge(result$, sendAndHide$);
-          },
-          next,
-        };
+        const url = new URL(config.host);
+        const ws = `ws${url.protocol === "https:" ? "s" : ""}://${
+          url.host
+        }/api/websocket`;
+
+        const socket = new WebSocket(ws);
+
+        // Only a successful authentication resets the backoff.
+        let attempt = 0;
+
+        return socket.connection$.pipe(
+          switchMap((connection) => handshake$(connection, config)),
+          tap((state) => {
+            if (state.status === "authenticated") {
+              attempt = 0;
+            }
+          }),
+          startWith({ status: "connecting" as const }),
+          // Say so right away, pending commands should not wait for the backoff to fail.
+          catchError((error) =>
+            error instanceof SocketAuthInvalidError
+              ? throwError(() => error)
+              : concat(
+                  of({ status: "disconnected" as const }),
+                  throwError(() => error)
+                )
+          ),
+          retry({
+            delay: (error) => {
+              if (error instanceof SocketAuthInvalidError) {
+                return throwError(() => error);
+              }
+
+              attempt += 1;
+              const wait = exponentialBackoff(attempt, RECONNECT_BACKOFF);
+              debug(
+                "lost connection to HA (%s), reconnecting in %dms",
+                error?.message,
+                wait
+              );
+
+              return timer(wait);
+            },
+          })
+        );
       }),
       shareReplay(1)
     );
+
+    this.socket$ = this.connection$.pipe(
+      switchMap((state) =>
+        state.status === "authenticated" ? of(state.manager) : EMPTY
+      )
+    );
+
+    this.state$ = this.connection$.pipe(
+      map((state): SocketState => {
+        if (state.status === "authenticated") {
+          return { status: state.status, haVersion: state.haVersion };
+        }
+
+        return state;
+      }),
+      distinctUntilChanged((a, b) => a.status === b.status)
+    );
   }
 
   // TODO: Filter to be only stuff possible for HA
@@ -134,43 +362,76 @@ export default class Socket {
    */
   send$(message: any): Observable<boolean> {
     return this.socket$.pipe(
+      take(1),
       switchMap((socket) => {
         return socket.send$(message);
       })
     );
   }
 
+  /**
+   * Sends a message and completes with the first reply.
+   * When the connection drops before the reply arrives it is sent again after reconnecting.
+   */
   single$(type: string): Observable<any> {
     return this.socket$.pipe(
       switchMap((socket) => {
-        return socket.sendWithId$({ type }).pipe(take(1));
-      })
+        return socket.sendWithId$({ type });
+      }),
+      take(1)
     );
   }
 
+  /**
+   * Subscribes on every (re)connection with a fresh id.
+   * Errors with a SocketResultError when HA refuses the subscription.
+   * Unsubscribing sends unsubscribe_events so HA stops sending us messages.
+   */
   subscribe$(message: Record<string, unknown>): Observable<any> {
     return this.socket$.pipe(
       switchMap((socket) => {
-        return socket.sendWithId$(message).pipe(
-          filter((v) => {
-            return v.type !== "result";
-          })
-        );
+        return socket.subscribe$(message);
       })
     );
   }
 
-  invoke$(message: Record<string, unknown>): Observable<any> {
-    return this.socket$.pipe(
-      switchMap((socket) => {
-        return socket.sendWithId$(message).pipe(
-          filter((v) => {
-            return v.type === "result";
-          }),
-          take(1)
-        );
-      })
-    );
+  /**
+   * Sends a command once and completes with its result.
+   *
+   * Waits for a connection before sending. Once sent it is never sent again:
+   * it errors with a SocketClosedError when the connection drops before the result arrives,
+   * and with a SocketTimeoutError when HA takes too long to answer.
+   */
+  invoke$(
+    message: Record<string, unknown>,
+    options: InvokeOptions = {}
+  ): Observable<any> {
+    const wait = toMs(options.timeout ?? RESULT_TIMEOUT);
+
+    return defer(() => {
+      let sent = false;
+
+      return this.connection$.pipe(
+        switchMap((state) => {
+          if (state.status !== "authenticated") {
+            return sent
+              ? throwError(() => new SocketClosedError(message))
+              : EMPTY;
+          }
+
+          sent = true;
+          return state.manager.sendWithId$(message).pipe(
+            filter((v) => v.type === "result"),
+            timeout({
+              first: wait,
+              with: () =>
+                throwError(() => new SocketTimeoutError(message, wait)),
+            })
+          );
+        }),
+        take(1)
+      );
+    });
   }
 
   // TODO: Filter to be only stuff possible for HA
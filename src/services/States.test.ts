@@ -0,0 +1,139 @@
+import { BehaviorSubject, of, Subject } from "rxjs";
+import { CompressedStatesUpdates } from "../types";
+import Events from "./Events";
+import Registries from "./Registries";
+import Rest from "./Rest";
+import Socket from "./Socket";
+import States from "./States";
+
+function createStates() {
+  const updates$ = new Subject<{ event: CompressedStatesUpdates }>();
+  const livingRoom$ = new BehaviorSubject<string[]>([]);
+  const socket = {
+    socket$: of({ subscribe$: () => updates$ }),
+  } as unknown as Socket;
+
+  const states = new States({
+    socket,
+    events: {} as Events,
+    rest: {} as Rest,
+    registries: {
+      entityIdsInArea$: () => livingRoom$,
+    } as unknown as Registries,
+  });
+
+  const add = (entityId: string, state: string, attributes = {}) =>
+    updates$.next({
+      event: {
+        a: { [entityId]: { s: state, a: attributes, c: "ctx", lc: 1, lu: 1 } },
+      },
+    });
+
+  const change = (entityId: string, state: string, attributes = {}) =>
+    updates$.next({
+      event: { c: { [entityId]: { "+": { s: state, a: attributes } } } },
+    });
+
+  return { states, add, change, livingRoom$ };
+}
+
+describe("States", () => {
+  it("should serve the snapshot from the cache", () => {
+    const { states, add } = createStates();
+    const subscription = states.all$.subscribe();
+
+    expect(states.snapshot()).toEqual({});
+
+    add("light.kitchen", "on");
+
+    expect(states.snapshot()["light.kitchen"].state).toBe("on");
+    subscription.unsubscribe();
+  });
+
+  it("should skip unknown and unavailable numeric states", () => {
+    const { states, add, change } = createStates();
+    const values: number[] = [];
+    const subscription = states
+      .numeric$("sensor.power")
+      .subscribe((v) => values.push(v));
+
+    add("sensor.power", "unknown");
+    change("sensor.power", "12.5");
+    change("sensor.power", "unavailable");
+    change("sensor.power", "12.5");
+    change("sensor.power", "not a number");
+    change("sensor.power", "0");
+
+    expect(values).toEqual([12.5, 0]);
+    subscription.unsubscribe();
+  });
+
+  it("should map on/off to booleans", () => {
+    const { states, add, change } = createStates();
+    const values: boolean[] = [];
+    const subscription = states
+      .binary$("binary_sensor.motion")
+      .subscribe((v) => values.push(v));
+
+    add("binary_sensor.motion", "off");
+    change("binary_sensor.motion", "on");
+    change("binary_sensor.motion", "unavailable");
+    change("binary_sensor.motion", "on");
+    change("binary_sensor.motion", "off");
+
+    expect(values).toEqual([false, true, false]);
+    subscription.unsubscribe();
+  });
+
+  it("should only emit an attribute when it changes", () => {
+    const { states, add, change } = createStates();
+    const values: unknown[] = [];
+    const subscription = states
+      .attribute$<number[]>("light.kitchen", "rgb_color")
+      .subscribe((v) => values.push(v));
+
+    add("light.kitchen", "on", { rgb_color: [255, 0, 0] });
+    change("light.kitchen", "on", { brightness: 10 });
+    change("light.kitchen", "on", { rgb_color: [0, 255, 0] });
+
+    expect(values).toEqual([
+      [255, 0, 0],
+      [0, 255, 0],
+    ]);
+    subscription.unsubscribe();
+  });
+
+  it("should report availability", () => {
+    const { states, add, change } = createStates();
+    const values: boolean[] = [];
+    const subscription = states
+      .availability$("sensor.power")
+      .subscribe((v) => values.push(v));
+
+    add("sensor.power", "unknown");
+    change("sensor.power", "12");
+    change("sensor.power", "unavailable");
+
+    expect(values).toEqual([true, false]);
+    subscription.unsubscribe();
+  });
+
+  it("should select the entities of a domain in an area", () => {
+    const { states, add, change, livingRoom$ } = createStates();
+    const selected: string[][] = [];
+    const subscription = states
+      .byArea$("living_room", "light")
+      .subscribe((entities) =>
+        selected.push(entities.map((entity) => entity.state))
+      );
+
+    add("light.couch", "off");
+    add("switch.tv", "on");
+    livingRoom$.next(["light.couch", "switch.tv", "light.missing"]);
+    change("light.couch", "on");
+    change("switch.tv", "off");
+
+    expect(selected).toEqual([[], ["off"], ["on"]]);
+    subscription.unsubscribe();
+  });
+});
@@ -1,56 +1,175 @@
-import { merge, Observable, of } from "rxjs";
-import { filter, groupBy, map, pluck, switchMap, take } from "rxjs/operators";
+import { combineLatest, merge, Observable, throwError } from "rxjs";
+import {
+  catchError,
+  distinct,
+  distinctUntilChanged,
+  filter,
+  map,
+  mergeMap,
+  scan,
+  shareReplay,
+  switchMap,
+  take,
+  tap,
+} from "rxjs/operators";
 import globToRegexp from "glob-to-regexp";
-import { IServicesCradle } from "./cradle";
-import { HassEntityBase } from "../types";
+import DEBUG from "debug";
+import { isDeepStrictEqual } from "util";
+import { HassEntities, HassEntity, HassEntityBase } from "../types";
 import Events from "./Events";
-import Socket from "./Socket";
+import Socket, { SocketManager, SocketResultError } from "./Socket";
 import Rest from "./Rest";
+import Registries from "./Registries";
+import { applyStatesUpdates } from "../helpers/applyStatesUpdates";
 
+const debug = DEBUG("r-h.states");
+
+/**
+ * States HA uses when it does not know the actual value of an entity.
+ */
+const UNKNOWN_STATES = ["unknown", "unavailable"];
+
+type FallbackMessage =
+  | { type: "all"; entities: HassEntity[] }
+  | { type: "changed"; entityId: string; state: HassEntity | null };
+
+/**
+ * Keeps every entity of HA in memory.
+ *
+ * The cache is filled once per connection and kept up to date with subscribe_entities.
+ * Older HA versions without subscribe_entities get get_states + state_changed instead.
+ */
 export default class States {
   socket: Socket;
   events: Events;
   rest: Rest;
+  registries: Registries;
+
+  private cache: HassEntities = {};
+  private registry$: Observable<HassEntities>;
 
   constructor({
     socket,
     events,
     rest,
+    registries,
   }: {
     socket: Socket;
     events: Events;
     rest: Rest;
+    registries: Registries;
   }) {
     this.socket = socket;
     this.events = events;
     this.rest = rest;
+    this.registries = registries;
+
+    this.registry$ = this.socket.socket$.pipe(
+      switchMap((connection) => {
+        return subscribeEntities$(connection).pipe(
+          catchError((error) => {
+            if (
+              error instanceof SocketResultError &&
+              error.error.code === "unknown_command"
+            ) {
+              debug("subscribe_entities not supported, falling back");
+              return fallback$(connection);
+            }
+
+            return throwError(() => error);
+          })
+        );
+      }),
+      tap((entities) => {
+        this.cache = entities;
+      }),
+      shareReplay(1)
+    );
   }
 
   /**
    * Returns an observable with all the states.
    */
   get all$(): Observable<HassEntityBase[]> {
-    return this.socket.single$("get_states").pipe(map((v) => v.result));
+    return this.registry$.pipe(
+      take(1),
+      map((entities) => Object.values(entities))
+    );
+  }
+
+  /**
+   * Returns the entities as we currently know them, without waiting.
+   * Empty until the first load from HA is done.
+   */
+  snapshot(): HassEntities {
+    return this.cache;
+  }
+
+  entity$(entityId: string): Observable<HassEntityBase> {
+    return this.registry$.pipe(
+      map((entities) => entities[entityId]),
+      filter((v) => !!v),
+      distinctUntilChanged()
+    );
   }
 
-  private updatesForEntityId$(entityId: string): Observable<HassEntityBase> {
-    const realtime$ = this.events.stateChanged$.pipe(
-      filter((v) => v.entity_id === entityId),
-      map((v) => v.new_state as HassEntityBase)
+  /**
+   * The raw state of an entity. Only emits when it changes.
+   */
+  state$(entityId: string): Observable<string> {
+    return this.entity$(entityId).pipe(
+      map((entity) => entity.state),
+      distinctUntilChanged()
     );
+  }
 
-    return realtime$;
+  /**
+   * The state as a number. Skips unknown, unavailable and anything else which is not a number.
+   */
+  numeric$(entityId: string): Observable<number> {
+    return this.state$(entityId).pipe(
+      filter((state) => !UNKNOWN_STATES.includes(state)),
+      map((state) => Number(state)),
+      filter((value) => !Number.isNaN(value)),
+      distinctUntilChanged()
+    );
   }
 
-  entity$(entityId: string): Observable<HassEntityBase> {
-    const initial$ = this.all$.pipe(
-      map((all) => all.find((item) => item.entity_id === entityId)),
-      filter((v) => !!v)
-    ) as Observable<HassEntityBase>;
-
-    // First, grab all of them and fetch the one for that specific entityId.
-    // Then, subscribe to the state_change events for that entityId.
-    return merge(initial$, this.updatesForEntityId$(entityId));
+  /**
+   * The state of an on/off entity as a boolean. Skips every other state.
+   */
+  binary$(entityId: string): Observable<boolean> {
+    return this.state$(entityId).pipe(
+      filter((state) => state === "on" || state === "off"),
+      map((state) => state === "on"),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * A single attribute of an entity. Emits undefined when the attribute is missing.
+   */
+  attribute$<T = unknown>(
+    entityId: string,
+    name: string
+  ): Observable<T | undefined> {
+    return this.entity$(entityId).pipe(
+      map(
+        (entity) =>
+          (entity.attributes as Record<string, unknown>)[name] as T | undefined
+      ),
+      distinctUntilChanged((a, b) => isDeepStrictEqual(a, b))
+    );
+  }
+
+  /**
+   * Whether HA can currently reach the entity.
+   */
+  availability$(entityId: string): Observable<boolean> {
+    return this.state$(entityId).pipe(
+      map((state) => state !== "unavailable"),
+      distinctUntilChanged()
+    );
   }
 
   /**
@@ -59,31 +178,112 @@ export default class States {
   entities$(entityGlob: string): Observable<Observable<HassEntityBase>> {
     const regex = globToRegexp(entityGlob);
 
-    const initial$ = this.all$.pipe(
-      map((entities) => {
-        return entities.filter((v) => v.entity_id.match(regex));
-      })
+    return this.registry$.pipe(
+      mergeMap((entities) => {
+        return Object.keys(entities).filter((entityId) =>
+          entityId.match(regex)
+        );
+      }),
+      distinct(),
+      map((entityId) => this.entity$(entityId))
     );
+  }
 
-    const individual$ = initial$.pipe(
-      switchMap((entities) => {
-        return of(...entities);
-      })
-    );
+  /**
+   * The entities in an area, optionally only those of a domain. Like byArea$("living_room", "light").
+   * Emits again when an entity changes or moves in or out of the area.
+   */
+  byArea$(areaId: string, domain?: string): Observable<HassEntityBase[]> {
+    return this.select$(this.registries.entityIdsInArea$(areaId), domain);
+  }
 
-    return individual$.pipe(
-      groupBy((state) => state.entity_id),
-      map((entity$) => {
-        const entityName$ = entity$.pipe(take(1), pluck("entity_id"));
+  /**
+   * The entities on a floor, optionally only those of a domain.
+   */
+  byFloor$(floorId: string, domain?: string): Observable<HassEntityBase[]> {
+    return this.select$(this.registries.entityIdsOnFloor$(floorId), domain);
+  }
 
-        const updates$ = entityName$.pipe(
-          switchMap((entityId) => {
-            return this.updatesForEntityId$(entityId);
-          })
-        );
+  /**
+   * The entities with a label, optionally only those of a domain.
+   */
+  byLabel$(labelId: string, domain?: string): Observable<HassEntityBase[]> {
+    return this.select$(this.registries.entityIdsWithLabel$(labelId), domain);
+  }
 
-        return merge(entity$, updates$);
-      })
+  private select$(
+    entityIds$: Observable<string[]>,
+    domain?: string
+  ): Observable<HassEntityBase[]> {
+    return combineLatest([entityIds$, this.registry$]).pipe(
+      map(([entityIds, entities]) =>
+        entityIds
+          .filter((entityId) => !domain || entityId.startsWith(`${domain}.`))
+          .map((entityId) => entities[entityId])
+          .filter((entity) => !!entity)
+      ),
+      // Unchanged entities keep their reference.
+      distinctUntilChanged(
+        (a, b) =>
+          a.length === b.length && a.every((entity, i) => entity === b[i])
+      )
     );
   }
 }
+
+function subscribeEntities$(
+  connection: SocketManager
+): Observable<HassEntities> {
+  return connection.subscribe$({ type: "subscribe_entities" }).pipe(
+    // Every connection starts from scratch. HA sends all entities in the first event.
+    scan(
+      (entities: HassEntities, msg) => applyStatesUpdates(entities, msg.event),
+      {}
+    )
+  );
+}
+
+function fallback$(connection: SocketManager): Observable<HassEntities> {
+  const changed$ = connection
+    .subscribe$({ type: "subscribe_events", event_type: "state_changed" })
+    .pipe(
+      map(
+        (msg): FallbackMessage => ({
+          type: "changed",
+          entityId: msg.event.data.entity_id,
+          state: msg.event.data.new_state,
+        })
+      )
+    );
+
+  const all$ = connection.sendWithId$({ type: "get_states" }).pipe(
+    filter((msg) => msg.type === "result"),
+    take(1),
+    map((msg): FallbackMessage => ({ type: "all", entities: msg.result }))
+  );
+
+  return merge(changed$, all$).pipe(
+    // Changes which arrive before get_states answers are already part of the answer.
+    scan((entities: HassEntities | null, msg: FallbackMessage) => {
+      if (msg.type === "all") {
+        return Object.fromEntries(
+          msg.entities.map((entity) => [entity.entity_id, entity])
+        );
+      }
+
+      if (!entities) {
+        return null;
+      }
+
+      const next = { ...entities };
+      if (msg.state) {
+        next[msg.entityId] = msg.state;
+      } else {
+        delete next[msg.entityId];
+      }
+
+      return next;
+    }, null),
+    filter((entities): entities is HassEntities => !!entities)
+  );
+}
@@ -0,0 +1,91 @@
+import { Subject, throwError } from "rxjs";
+import { IServicesCradle } from "./cradle";
+import { SocketResultError } from "./Socket";
+import Templates, { TemplateError } from "./Templates";
+
+/**
+ * Subscribing fails with refused, like HA does for a template it cannot parse.
+ */
+function createFakeSocket(refused?: Error) {
+  const events$ = new Subject<{ event: unknown }>();
+  const subscriptions: Record<string, unknown>[] = [];
+
+  const socket = {
+    subscribe$(message: Record<string, unknown>) {
+      subscriptions.push(message);
+      return refused ? throwError(() => refused) : events$;
+    },
+  };
+
+  return {
+    events$,
+    subscriptions,
+    cradle: { socket } as unknown as IServicesCradle,
+  };
+}
+
+describe("Templates", () => {
+  it("should emit every render and skip warnings", () => {
+    const fake = createFakeSocket();
+    const templates = new Templates(fake.cradle);
+    const results: number[] = [];
+
+    const subscription = templates
+      .render$<number>("{{ states(entity) | float * 2 }}", {
+        entity: "sensor.power",
+      })
+      .subscribe((v) => results.push(v));
+
+    fake.events$.next({ event: { result: 100, listeners: {} } });
+    fake.events$.next({
+      event: { error: "sensor.power is unavailable", level: "WARNING" },
+    });
+    fake.events$.next({ event: { result: 120, listeners: {} } });
+
+    expect(results).toEqual([100, 120]);
+    expect(fake.subscriptions).toEqual([
+      {
+        type: "render_template",
+        template: "{{ states(entity) | float * 2 }}",
+        variables: { entity: "sensor.power" },
+        report_errors: true,
+      },
+    ]);
+    subscription.unsubscribe();
+  });
+
+  it("should error with a TemplateError when HA refuses the subscription", () => {
+    const fake = createFakeSocket(
+      new SocketResultError(
+        { type: "render_template" },
+        { code: "template_error", message: "unexpected '}'" }
+      )
+    );
+    const templates = new Templates(fake.cradle);
+    let error: unknown;
+
+    templates.render$("{{ states('sensor.power') }").subscribe({
+      error: (e) => (error = e),
+    });
+
+    expect(error).toBeInstanceOf(TemplateError);
+    expect((error as TemplateError).haMessage).toBe("unexpected '}'");
+  });
+
+  it("should error when the template breaks", () => {
+    const fake = createFakeSocket();
+    const templates = new Templates(fake.cradle);
+    let error: unknown;
+
+    templates.render$("{{ states('sensor.power') | flot }}").subscribe({
+      error: (e) => (error = e),
+    });
+
+    fake.events$.next({
+      event: { error: "No filter named 'flot'.", level: "ERROR" },
+    });
+
+    expect(error).toBeInstanceOf(TemplateError);
+    expect((error as TemplateError).haMessage).toBe("No filter named 'flot'.");
+  });
+});
@@ -0,0 +1,77 @@
+import DEBUG from "debug";
+import { EMPTY, Observable, of, throwError } from "rxjs";
+import { catchError, switchMap } from "rxjs/operators";
+import { IServicesCradle } from "./cradle";
+import Socket, { SocketResultError } from "./Socket";
+
+const debug = DEBUG("r-h.templates");
+
+type RenderTemplateEvent =
+  | { result: unknown; listeners: Record<string, unknown> }
+  | { error: string; level: "ERROR" | "WARNING" };
+
+/**
+ * HA could not render the template. Like a typo in a filter or a missing variable.
+ */
+export class TemplateError extends Error {
+  constructor(
+    public template: string,
+    public haMessage: string
+  ) {
+    super(`rendering ${template} failed: ${haMessage}`);
+    this.name = "TemplateError";
+  }
+}
+
+/**
+ * Live Jinja templates through render_template.
+ * HA renders them again whenever one of the entities they use changes.
+ */
+export default class Templates {
+  socket: Socket;
+
+  constructor(dependencies: IServicesCradle) {
+    this.socket = dependencies.socket;
+  }
+
+  /**
+   * Emits every new render result. HA turns results like "12.5" or "true" into numbers and booleans.
+   * Errors with a TemplateError when the template breaks, warnings are only logged.
+   * HA already refuses some templates when subscribing, those are a TemplateError too.
+   */
+  render$<T = string>(
+    template: string,
+    variables?: Record<string, unknown>
+  ): Observable<T> {
+    return this.socket
+      .subscribe$({
+        type: "render_template",
+        template,
+        variables,
+        report_errors: true,
+      })
+      .pipe(
+        switchMap((msg) => {
+          const event: RenderTemplateEvent = msg.event;
+
+          if ("error" in event) {
+            if (event.level === "WARNING") {
+              debug("warning for %s: %s", template, event.error);
+              return EMPTY;
+            }
+
+            return throwError(() => new TemplateError(template, event.error));
+          }
+
+          return of(event.result as T);
+        }),
+        catchError((error) =>
+          throwError(() =>
+            error instanceof SocketResultError
+              ? new TemplateError(template, error.error.message)
+              : error
+          )
+        )
+      );
+  }
+}
@@ -4,14 +4,13 @@ import DEBUG from "debug";
 import { from, Observable, switchMap, timeout, catchError, tap } from "rxjs";
 import { exec } from "child_process";
 import { promisify } from "util";
+import { TeslaConfig } from "./Config";
 
 const debug = DEBUG("r-h.tesla-ble");
 const execAsync = promisify(exec);
 
 const REQUEST_TIMEOUT_MS = 15000; // 15 seconds timeout for RxJS operators
 const FETCH_TIMEOUT_MS = 60000; // 1 minute timeout for fetch calls
-const SSH_HOST = "vincent@10.0.0.15";
-const DOCKER_CONTAINER = "tesla-ble-http-proxy";
 
 export interface TeslaChargeState {
   battery_level: number;
@@ -53,10 +52,14 @@ interface TeslaCommandResponse {
 export default class TeslaBle {
   private baseUrl: string;
   private vin: string;
-
-  constructor(baseUrl: string, vin: string) {
-    this.baseUrl = baseUrl;
-    this.vin = vin;
+  private sshHost: string;
+  private dockerContainer: string;
+
+  constructor(config: TeslaConfig) {
+    this.baseUrl = config.proxyUrl;
+    this.vin = config.vin;
+    this.sshHost = config.sshHost;
+    this.dockerContainer = config.dockerContainer;
   }
 
   /**
@@ -92,7 +95,7 @@ export default class TeslaBle {
         return data.response.response.charge_state;
       }),
       catchError((err) => {
-        if (err.name === "TimeoutError") {
+        if (err.name === "TimeoutError" && this.sshHost) {
           debug(
             `Request timed out after ${REQUEST_TIMEOUT_MS}ms, restarting Tesla BLE proxy...`
           );
@@ -113,7 +116,7 @@ export default class TeslaBle {
    * Restart the Tesla BLE HTTP Proxy docker container via SSH
    */
   private restartProxy$(): Observable<string> {
-    const command = `ssh ${SSH_HOST} "docker restart ${DOCKER_CONTAINER}"`;
+    const command = `ssh ${this.sshHost} "docker restart ${this.dockerContainer}"`;
     debug(`Executing: ${command}`);
 
     return from(execAsync(command)).pipe(
@@ -199,7 +202,7 @@ export default class TeslaBle {
         return data.response.result;
       }),
       catchError((err) => {
-        if (err.name === "TimeoutError") {
+        if (err.name === "TimeoutError" && this.sshHost) {
           debug(
             `Command ${command} timed out after ${REQUEST_TIMEOUT_MS}ms, restarting Tesla BLE proxy...`
           );
@@ -1,6 +1,13 @@
 import DEBUG from "debug";
 import { Observable, combineLatest } from "rxjs";
-import { map, distinctUntilChanged, shareReplay, tap } from "rxjs/operators";
+import {
+  map,
+  distinctUntilChanged,
+  filter,
+  scan,
+  shareReplay,
+  tap,
+} from "rxjs/operators";
 import Mqtt from "./Mqtt";
 import { IServicesCradle } from "./cradle";
 
@@ -17,11 +24,24 @@ export default class TeslamateMqtt {
   private mqtt: Mqtt;
   private carId: number;
   private baseTopicPrefix: string;
+  private fields$: Observable<Record<string, string>>;
 
   constructor(dependencies: IServicesCradle, carId: number = 1) {
     this.mqtt = dependencies.mqtt;
     this.carId = carId;
     this.baseTopicPrefix = `teslamate/cars/${this.carId}`;
+
+    // One subscription for all fields of the car.
+    // We keep the latest value per field so late subscribers still get the retained values.
+    this.fields$ = this.mqtt
+      .subscribePattern$(`${this.baseTopicPrefix}/:field`)
+      .pipe(
+        scan(
+          (fields, msg) => ({ ...fields, [msg.params.field]: msg.payload }),
+          {} as Record<string, string>
+        ),
+        shareReplay(1)
+      );
     debug(`Initialized TeslamateMqtt for car ${carId}`);
   }
 
@@ -35,8 +55,11 @@ export default class TeslamateMqtt {
     const topic = `${this.baseTopicPrefix}/${field}`;
     debug(`Subscribing to topic: ${topic}`);
 
-    return this.mqtt.subscribe$(topic).pipe(
-      tap(() => debug(`First emission for topic ${topic}`)),
+    return this.fields$.pipe(
+      map((fields) => fields[field]),
+      filter((value) => typeof value !== "undefined"),
+      distinctUntilChanged(),
+      tap(() => debug(`Emission for topic ${topic}`)),
       map((value) => {
         const stringValue = value.toString();
         const transformed = transform(stringValue);
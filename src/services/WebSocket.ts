@@ -1,109 +1,106 @@
-import { map, share, shareReplay, switchMap } from "rxjs/operators";
+import { map, share } from "rxjs/operators";
 import WS, { MessageEvent } from "ws";
 import DEBUG from "debug";
 
-import { fromEvent, Observable, of } from "rxjs";
+import { fromEvent, Observable } from "rxjs";
 
 const debug = DEBUG("r-h.web-socket");
 
 export type WebSocketMessageType = ArrayBufferLike | ArrayBufferView | string;
 
-export type SocketManager = {
+export type SocketConnection = {
   messages$: Observable<MessageEvent>;
   send$: (message: WebSocketMessageType) => Observable<boolean>;
 };
 
+/**
+ * Signals that an open connection went away.
+ * The connection observable errors with it so consumers can retry.
+ */
+export class WebSocketClosedError extends Error {
+  constructor(
+    public url: string,
+    public code: number,
+    public reason: string
+  ) {
+    super(`websocket ${url} closed with code ${code} ${reason}`.trim());
+  }
+}
+
 /**
  * NOTE: This is not injected with awilix.
  */
 export default class WebSocket {
   url: string;
 
-  private manager$: Observable<SocketManager>;
+  /**
+   * Every subscription opens a new socket.
+   * Emits once the socket is open and errors when it closes.
+   * Retrying the observable is how you reconnect.
+   */
+  connection$: Observable<SocketConnection>;
 
   constructor(url: string) {
     debug("building WebSocket instance for url %s", url);
     this.url = url;
 
-    const socket$ = new Observable<WS>(function (observer) {
+    this.connection$ = new Observable<SocketConnection>(function (observer) {
       debug("creating socket with url %s", url);
       const ws = new WS(url);
 
-      const error$ = fromEvent(ws, "error");
-      const close$ = fromEvent(ws, "close");
-
-      const open$ = fromEvent(ws, "open");
-
-      const cleanup = [
-        error$.subscribe({
-          next(error: unknown) {
-            // ErrorEvent
-            debug("got error event %j", error);
-            observer.error(error);
-          },
-        }),
-        close$.subscribe({
-          next() {
-            debug("completed websocket");
-            observer.complete();
-          },
-        }),
-        open$.subscribe({
-          next() {
-            observer.next(ws);
-          },
+      const messages$ = fromEvent(ws, "message").pipe(
+        map((event) => {
+          return event as MessageEvent;
         }),
-      ];
+        share()
+      );
+
+      function send$(message: WebSocketMessageType) {
+        return new Observable<boolean>((sendObserver) => {
+          debug("sending message %j", message);
+          ws.send(message, (err) => {
+            if (err) {
+              sendObserver.error(err);
+              return;
+            }
+
+            sendObserver.next(true);
+            sendObserver.complete();
+          });
+        });
+      }
+
+      function onOpen() {
+        debug("opened websocket");
+        observer.next({ messages$, send$ });
+      }
+
+      function onError(error: Error) {
+        debug("got error event %s", error.message);
+        observer.error(error);
+      }
+
+      function onClose(code: number, reason: Buffer) {
+        debug("closed websocket with code %d", code);
+        observer.error(new WebSocketClosedError(url, code, reason.toString()));
+      }
+
+      ws.on("open", onOpen);
+      ws.on("error", onError);
+      ws.on("close", onClose);
 
       return () => {
         debug("cleaning up after websocket");
-        cleanup.forEach((v) => v.unsubscribe());
+        ws.off("open", onOpen);
+        ws.off("error", onError);
+        ws.off("close", onClose);
+
+        if (ws.readyState !== WS.CLOSED) {
+          // Closing a socket which is still connecting emits an error we no longer care about.
+          ws.on("error", () => undefined);
+          ws.terminate();
+        }
       };
     });
-
-    const sharedSocket$ = socket$.pipe(shareReplay(1));
-
-    const messages$ = sharedSocket$.pipe(
-      switchMap((socket) => {
-        return fromEvent(socket, "message").pipe(
-          map((event) => {
-            return event as MessageEvent;
-          })
-        );
-      })
-    );
-
-    function send$(message: WebSocketMessageType) {
-      return sharedSocket$.pipe(
-        switchMap((socket) => {
-          debug("sending message %j", message);
-          // TODO: ensure we connect first ... .
-          socket.send(message);
-
-          return of(true);
-        })
-      );
-    }
-
-    this.manager$ = of({
-      messages$,
-      send$,
-    }).pipe(share());
-  }
-
-  send$(message: WebSocketMessageType): Observable<boolean> {
-    return this.manager$.pipe(
-      switchMap((manager) => {
-        return manager.send$(message);
-      })
-    );
-  }
-
-  get messages$(): Observable<MessageEvent> {
-    return this.manager$.pipe(
-      switchMap((socket) => {
-        return socket.messages$;
-      })
-    );
   }
 }
@@ -10,25 +10,32 @@ import DiscoverySwitch from "./DiscoverySwitch";
 import Notify from "./Notify";
 import HassStatus from "./HassStatus";
 import BinarySensor from "./BinarySensor";
+import Sensor from "./Sensor";
 import Discovery from "./Discovery";
 import Rest from "./Rest";
 import History from "./History";
 import TeslaBle from "./TeslaBle";
 import TeslamateMqtt from "./TeslamateMqtt";
 import HomeWizardP1 from "./HomeWizardP1";
+import Cleaner from "./Cleaner";
+import Registries from "./Registries";
+import Templates from "./Templates";
 
-const TESLA_CONFIG = {
-  baseUrl: "http://10.0.0.15:8080",
-  vin: "LRW3E7EK9NC512649",
-  teslamateCarId: 1,
-} as const;
-
-const HOMEWIZARD_P1_IP = "10.0.0.246";
+/**
+ * Everything we need to talk to a single car.
+ */
+export type Tesla = {
+  name: string;
+  ble: TeslaBle;
+  teslamate: TeslamateMqtt;
+};
 
 export interface IServicesCradle {
   config: Config;
   socket: Socket;
   states: States;
+  registries: Registries;
+  templates: Templates;
   events: Events;
   service: Service;
   mqtt: Mqtt;
@@ -39,9 +46,10 @@ export interface IServicesCradle {
   notify: Notify;
   hassStatus: HassStatus;
   binarySensor: BinarySensor;
-  teslaBle: TeslaBle;
-  teslamateMqtt: TeslamateMqtt;
-  homeWizardP1: HomeWizardP1;
+  sensor: Sensor;
+  teslas: Tesla[];
+  homeWizardP1s: HomeWizardP1[];
+  cleaner: Cleaner;
 }
 
 // sets up awilix ... .
@@ -54,6 +62,8 @@ container.register({
   config: asClass(Config, { lifetime: "SINGLETON" }),
   socket: asClass(Socket, { lifetime: "SINGLETON" }),
   states: asClass(States, { lifetime: "SINGLETON" }),
+  registries: asClass(Registries, { lifetime: "SINGLETON" }),
+  templates: asClass(Templates, { lifetime: "SINGLETON" }),
   events: asClass(Events, { lifetime: "SINGLETON" }),
   service: asClass(Service, { lifetime: "SINGLETON" }),
   mqtt: asClass(Mqtt, { lifetime: "SINGLETON" }),
@@ -64,17 +74,25 @@ container.register({
   notify: asClass(Notify, { lifetime: "SINGLETON" }),
   hassStatus: asClass(HassStatus, { lifetime: "SINGLETON" }),
   binarySensor: asClass(BinarySensor, { lifetime: "SINGLETON" }),
-  teslaBle: asFunction(
-    () => new TeslaBle(TESLA_CONFIG.baseUrl, TESLA_CONFIG.vin),
+  sensor: asClass(Sensor, { lifetime: "SINGLETON" }),
+  // The integrations only exist for the instances in the config.
+  teslas: asFunction(
+    (cradle: IServicesCradle): Tesla[] =>
+      cradle.config.integrations().teslas.map((tesla) => ({
+        name: tesla.name,
+        ble: new TeslaBle(tesla),
+        teslamate: new TeslamateMqtt(cradle, tesla.teslamateCarId),
+      })),
     { lifetime: "SINGLETON" }
   ),
-  teslamateMqtt: asFunction(
-    (cradle) => new TeslamateMqtt(cradle, TESLA_CONFIG.teslamateCarId),
+  homeWizardP1s: asFunction(
+    (cradle: IServicesCradle) =>
+      cradle.config
+        .integrations()
+        .homeWizardP1s.map((p1) => new HomeWizardP1(p1.host)),
     { lifetime: "SINGLETON" }
   ),
-  homeWizardP1: asFunction(() => new HomeWizardP1(HOMEWIZARD_P1_IP), {
-    lifetime: "SINGLETON",
-  }),
+  cleaner: asClass(Cleaner, { lifetime: "SINGLETON" }),
 });
 
 export default container.cradle as IServicesCradle;
@@ -96,17 +96,26 @@ export type HassEntity = HassEntityBase & {
 
 export type HassEntities = { [entity_id: string]: HassEntity };
 
+export type HassServiceField = {
+  name?: string;
+  description: string;
+  example: string | boolean | number;
+  required?: boolean;
+  selector?: object;
+};
+
+// Newer HA versions group the less common fields in a collapsible section.
+export type HassServiceFieldSection = {
+  collapsed?: boolean;
+  fields: { [field_name: string]: HassServiceField };
+};
+
 export type HassService = {
   name?: string;
   description: string;
   target?: object | null;
   fields: {
-    [field_name: string]: {
-      name?: string;
-      description: string;
-      example: string | boolean | number;
-      selector?: object;
-    };
+    [field_name: string]: HassServiceField | HassServiceFieldSection;
   };
 };
 
@@ -129,4 +138,81 @@ export type HassServiceTarget = {
   entity_id?: string | string[];
   device_id?: string | string[];
   area_id?: string | string[];
+  floor_id?: string | string[];
+  label_id?: string | string[];
+};
+
+// Compressed states as sent by subscribe_entities.
+// This comes from https://github.com/home-assistant/home-assistant-js-websocket/blob/master/lib/entities.ts
+export type CompressedEntityState = {
+  s: string;
+  a: { [key: string]: any };
+  c: Context | string;
+  lc: number;
+  lu: number;
+};
+
+export type CompressedEntityStateRemove = {
+  a: string[];
+};
+
+export type CompressedEntityDiff = {
+  "+"?: Partial<CompressedEntityState>;
+  "-"?: CompressedEntityStateRemove;
+};
+
+export type CompressedStatesUpdates = {
+  a?: { [entity_id: string]: CompressedEntityState };
+  r?: string[];
+  c?: { [entity_id: string]: CompressedEntityDiff };
+};
+
+// Registries as returned by config/<name>_registry/list.
+// Only the fields we use, HA sends more.
+export type AreaRegistryEntry = {
+  area_id: string;
+  name: string;
+  floor_id: string | null;
+  labels: string[];
+  aliases: string[];
+};
+
+export type FloorRegistryEntry = {
+  floor_id: string;
+  name: string;
+  level: number | null;
+  aliases: string[];
+};
+
+export type LabelRegistryEntry = {
+  label_id: string;
+  name: string;
+  color: string | null;
+  icon: string | null;
+};
+
+export type DeviceRegistryEntry = {
+  id: string;
+  name: string | null;
+  name_by_user: string | null;
+  area_id: string | null;
+  labels: string[];
+  manufacturer: string | null;
+  model: string | null;
+  disabled_by: string | null;
+};
+
+export type EntityRegistryEntry = {
+  entity_id: string;
+  name: string | null;
+  platform: string;
+  device_id: string | null;
+  area_id: string | null;
+  labels: string[];
+  /**
+   * Config and diagnostic entities are left out when targeting an area or device.
+   */
+  entity_category: "config" | "diagnostic" | null;
+  disabled_by: string | null;
+  hidden_by: string | null;
 };